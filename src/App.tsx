@@ -7,9 +7,15 @@ import PostDetailPage from './pages/PostDetailPage'
 import WritePage from './pages/WritePage'
 import EditPage from './pages/EditPage'
 import SearchPage from './pages/SearchPage'
+import SeriesPage from './pages/SeriesPage'
+import TagsPage from './pages/TagsPage'
+import TagPage from './pages/TagPage'
+import ReadingListPage from './pages/ReadingListPage'
+import NotificationsPage from './pages/NotificationsPage'
 import LoginPage from './pages/LoginPage'
 import SignupPage from './pages/SignupPage'
 import MyPage from './pages/MyPage'
+import AuthorPage from './pages/AuthorPage'
 import { useAuth } from './contexts/AuthContext'
 import './App.css'
 
@@ -48,6 +54,10 @@ function App() {
           <Route path="/" element={<HomePage />} />
           <Route path="/post/:id" element={<PostDetailPage />} />
           <Route path="/search" element={<SearchPage />} />
+          <Route path="/series/:id" element={<SeriesPage />} />
+          <Route path="/tags" element={<TagsPage />} />
+          <Route path="/tags/:tag" element={<TagPage />} />
+          <Route path="/lists/:id" element={<ReadingListPage />} />
           <Route
             path="/write"
             element={
@@ -74,6 +84,17 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/notifications"
+            element={
+              <ProtectedRoute>
+                <NotificationsPage />
+              </ProtectedRoute>
+            }
+          />
+          {/* /@username, /@username/slug (정적 경로보다 우선순위가 낮음) */}
+          <Route path="/:handle" element={<AuthorPage />} />
+          <Route path="/:handle/:slug" element={<PostDetailPage />} />
         </Routes>
       </main>
     </div>
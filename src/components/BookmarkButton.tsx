@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Bookmark } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { useBookmarks } from '../hooks/useBookmarks'
+
+interface BookmarkButtonProps {
+  postId: string
+  // icon: 카드 위 작은 버튼, full: 상세 페이지 버튼
+  variant?: 'icon' | 'full'
+}
+
+export default function BookmarkButton({ postId, variant = 'full' }: BookmarkButtonProps) {
+  const { user } = useAuth()
+  const { isBookmarked, toggleBookmark } = useBookmarks()
+  const navigate = useNavigate()
+  const [inProgress, setInProgress] = useState(false)
+  const bookmarked = isBookmarked(postId)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (!user) {
+      toast.error('로그인이 필요합니다.')
+      navigate('/login')
+      return
+    }
+
+    if (inProgress) return
+    setInProgress(true)
+    await toggleBookmark(postId)
+    setInProgress(false)
+  }
+
+  if (variant === 'icon') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={inProgress}
+        className={`p-2 rounded-full shadow-md backdrop-blur transition-colors ${
+          bookmarked ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-700 hover:bg-white'
+        }`}
+        aria-label={bookmarked ? '북마크 해제' : '북마크'}
+        title={bookmarked ? '북마크 해제' : '북마크'}
+      >
+        <Bookmark className={`w-4 h-4 ${bookmarked ? 'fill-current' : ''}`} />
+      </button>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={inProgress}
+      className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium border transition-colors disabled:opacity-50 ${
+        bookmarked
+          ? 'bg-blue-50 text-blue-700 border-blue-300 hover:bg-blue-100'
+          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+      }`}
+    >
+      <Bookmark className={`w-5 h-5 ${bookmarked ? 'fill-current' : ''}`} />
+      <span>{bookmarked ? '저장됨' : '북마크'}</span>
+    </button>
+  )
+}
@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Bookmark, Globe, ListChecks, Lock, Plus, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useBookmarks } from '../hooks/useBookmarks'
+import { getPostPath } from '../lib/slugUtils'
+import { getRelativeTimeString } from '../lib/timeUtils'
+import { getMarkdownPreview } from '../lib/markdownUtils'
+
+interface BookmarkedPost {
+  id: string
+  title: string
+  content: string
+  slug: string | null
+  created_at: string
+  thumbnail_url: string | null
+  views_count: number | null
+  profiles?: {
+    username: string
+  }
+  bookmarked_at: string
+  likes_count: number
+}
+
+interface ReadingListSummary {
+  id: string
+  name: string
+  is_public: boolean
+  updated_at: string
+  reading_list_items: { count: number }[]
+}
+
+type BookmarkSortOption = 'saved' | 'latest' | 'popular'
+
+// 마이페이지 북마크 탭: 북마크한 글 + 내 읽기 목록
+export default function BookmarksTab() {
+  const { user } = useAuth()
+  const { isBookmarked, toggleBookmark } = useBookmarks()
+  const [posts, setPosts] = useState<BookmarkedPost[]>([])
+  const [lists, setLists] = useState<ReadingListSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sortBy, setSortBy] = useState<BookmarkSortOption>('saved')
+  const [newName, setNewName] = useState('')
+  const [newIsPublic, setNewIsPublic] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchBookmarks = async () => {
+      try {
+        const [bookmarksResult, listsResult] = await Promise.all([
+          supabase
+            .from('bookmarks')
+            .select(`
+              *,
+              posts (
+                *,
+                profiles:user_id (username)
+              )
+            `)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('reading_lists')
+            .select(`
+              *,
+              reading_list_items (count)
+            `)
+            .eq('user_id', user.id)
+            .order('updated_at', { ascending: false }),
+        ])
+
+        if (bookmarksResult.error) throw bookmarksResult.error
+        if (listsResult.error) throw listsResult.error
+
+        // 삭제되었거나 볼 수 없게 된 글은 제외
+        const bookmarked = (bookmarksResult.data || []).filter(
+          (bookmark: { posts: BookmarkedPost | null }) => !!bookmark.posts
+        )
+        setPosts(
+          bookmarked.map((bookmark: { posts: BookmarkedPost; created_at: string }) => ({
+            ...bookmark.posts,
+            bookmarked_at: bookmark.created_at,
+          }))
+        )
+        setLists(listsResult.data || [])
+      } catch (error) {
+        console.error('Error fetching bookmarks:', error)
+        toast.error('북마크를 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBookmarks()
+  }, [user])
+
+  // 다른 화면에서 북마크를 해제한 글도 바로 빠지도록 현재 상태로 거름
+  const sortedPosts = useMemo(() => {
+    return posts
+      .filter((post) => isBookmarked(post.id))
+      .sort((a, b) => {
+        if (sortBy === 'latest') {
+          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        }
+        if (sortBy === 'popular') {
+          return b.likes_count - a.likes_count
+        }
+        return new Date(b.bookmarked_at).getTime() - new Date(a.bookmarked_at).getTime()
+      })
+  }, [posts, sortBy, isBookmarked])
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!user || !name) return
+
+    try {
+      const { data, error } = await supabase
+        .from('reading_lists')
+        .insert({ user_id: user.id, name, is_public: newIsPublic })
+        .select(`
+          *,
+          reading_list_items (count)
+        `)
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('같은 이름의 목록이 이미 있습니다.')
+          return
+        }
+        throw error
+      }
+
+      setLists((prev) => [data, ...prev])
+      setNewName('')
+      setNewIsPublic(false)
+      toast.success('읽기 목록을 만들었습니다.')
+    } catch (error) {
+      console.error('Error creating reading list:', error)
+      toast.error('읽기 목록 생성에 실패했습니다.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-10">
+      {/* 읽기 목록 */}
+      <section>
+        <h3 className="flex items-center gap-2 text-lg font-bold text-gray-900 mb-4">
+          <ListChecks className="w-5 h-5 text-blue-600" />
+          읽기 목록 ({lists.length})
+        </h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {lists.map((list) => (
+            <Link
+              key={list.id}
+              to={`/lists/${list.id}`}
+              className="p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-semibold text-gray-900 truncate">{list.name}</p>
+                {list.is_public ? (
+                  <Globe className="w-4 h-4 shrink-0 text-gray-400" />
+                ) : (
+                  <Lock className="w-4 h-4 shrink-0 text-gray-400" />
+                )}
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                {(list.reading_list_items[0]?.count ?? 0).toLocaleString()}개의 글 · {getRelativeTimeString(list.updated_at)} 수정
+              </p>
+            </Link>
+          ))}
+
+          {/* 새 목록 */}
+          <form onSubmit={handleCreateList} className="p-4 border-2 border-dashed border-gray-300 rounded-lg space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={50}
+                placeholder="새 목록 이름"
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                만들기
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={newIsPublic}
+                onChange={(e) => setNewIsPublic(e.target.checked)}
+                className="w-3.5 h-3.5 text-blue-600 rounded"
+              />
+              다른 사람에게 공개
+            </label>
+          </form>
+        </div>
+      </section>
+
+      {/* 북마크한 글 */}
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="flex items-center gap-2 text-lg font-bold text-gray-900">
+            <Bookmark className="w-5 h-5 text-blue-600" />
+            북마크한 글 ({sortedPosts.length})
+          </h3>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">정렬:</span>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as BookmarkSortOption)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="saved">저장한 순</option>
+              <option value="latest">최신 글순</option>
+              <option value="popular">인기순</option>
+            </select>
+          </div>
+        </div>
+
+        {sortedPosts.length === 0 ? (
+          <div className="text-center py-12">
+            <Bookmark className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">아직 북마크한 글이 없습니다.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {sortedPosts.map((post) => (
+              <div key={post.id} className="flex items-start gap-4 py-4">
+                <Link to={getPostPath(post, post.profiles?.username)} className="flex flex-1 min-w-0 gap-4 group">
+                  {post.thumbnail_url && (
+                    <img
+                      src={post.thumbnail_url}
+                      alt={post.title}
+                      className="w-24 h-16 shrink-0 object-cover rounded-lg"
+                    />
+                  )}
+                  <div className="min-w-0">
+                    <h4 className="text-lg font-semibold text-gray-900 truncate group-hover:text-blue-600 transition-colors">
+                      {post.title}
+                    </h4>
+                    <p className="text-sm text-gray-600 line-clamp-1 mb-1">
+                      {getMarkdownPreview(post.content, 100)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {post.profiles?.username || '알 수 없음'} · {getRelativeTimeString(post.bookmarked_at)} 저장
+                    </p>
+                  </div>
+                </Link>
+                <button
+                  onClick={() => toggleBookmark(post.id)}
+                  className="shrink-0 p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="북마크 해제"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useMemo, useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+import { getLanguageLabel, highlightCode, parseHighlightLines } from '../lib/codeUtils'
+import { copyToClipboard } from '../lib/clipboardUtils'
+
+interface CodeBlockProps {
+  code: string
+  language?: string | null
+  // 코드 블록 메타 (예: "{3-5}")
+  meta?: string | null
+}
+
+export default function CodeBlock({ code, language, meta }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false)
+  const highlighted = useMemo(() => highlightCode(code, language), [code, language])
+  const highlightLines = useMemo(() => parseHighlightLines(meta), [meta])
+
+  const handleCopy = async () => {
+    const success = await copyToClipboard(
+      code.replace(/\n$/, ''),
+      '코드가 클립보드에 복사되었습니다!',
+      '코드 복사에 실패했습니다.'
+    )
+    if (success) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  return (
+    <div className="code-block">
+      {/* 언어 표시 + 복사 버튼 */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-800 text-xs text-gray-400">
+        <span className="font-mono">{getLanguageLabel(language || highlighted.language)}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-700 hover:text-gray-100 transition-colors"
+        >
+          {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+          {copied ? '복사됨' : '복사'}
+        </button>
+      </div>
+      <pre>
+        <code className={highlighted.language ? `hljs language-${highlighted.language}` : 'hljs'}>
+          {highlighted.lines.map((tokens, index) => (
+            <span
+              key={index}
+              className={`code-line ${highlightLines.has(index + 1) ? 'code-line-highlighted' : ''}`}
+            >
+              <span className="code-line-number" aria-hidden="true">
+                {index + 1}
+              </span>
+              <span>
+                {tokens.map((token, tokenIndex) =>
+                  token.className ? (
+                    <span key={tokenIndex} className={token.className}>
+                      {token.text}
+                    </span>
+                  ) : (
+                    token.text
+                  )
+                )}
+                {'\n'}
+              </span>
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useState, useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
-import { Heart, MessageCircle, Edit2, Trash2 } from 'lucide-react'
+import { Heart, MessageCircle, Edit2, Trash2, ArrowLeft, CornerDownRight, Link2 } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { getRelativeTimeString } from '../lib/timeUtils'
+import { copyToClipboard } from '../lib/clipboardUtils'
 
 interface Comment {
   id: string
@@ -14,6 +15,8 @@ interface Comment {
   user_id: string
   parent_id: string | null
   deleted_at: string | null
+  likes_count: number
+  replies_count: number
   profiles?: {
     username: string
     avatar_url: string | null
@@ -31,11 +34,113 @@ interface CommentSectionProps {
   postId: string
 }
 
+type CommentSort = 'newest' | 'oldest' | 'likes' | 'replies'
+
 const COMMENTS_PER_PAGE = 20
 
+// 최상위 댓글 정렬 (답글은 항상 오래된 순)
+const commentSortOptions: Record<
+  CommentSort,
+  { label: string; column: 'created_at' | 'likes_count' | 'replies_count'; ascending: boolean }
+> = {
+  newest: { label: '최신순', column: 'created_at', ascending: false },
+  oldest: { label: '오래된순', column: 'created_at', ascending: true },
+  likes: { label: '좋아요순', column: 'likes_count', ascending: false },
+  replies: { label: '답글순', column: 'replies_count', ascending: false },
+}
+
+// 댓글 고유 주소의 해시 (#comment-<id>)
+const COMMENT_HASH_PREFIX = '#comment-'
+
+// 답글을 화면에 펼쳐 보이는 최대 깊이 (더 깊은 답글은 "이 스레드 계속 보기"로 따로 표시)
+const MAX_THREAD_DEPTH = 5
+// 들여쓰기는 이 깊이까지만 (깊은 스레드에서 본문 폭이 너무 좁아지지 않도록)
+const MAX_INDENT_DEPTH = 3
+
+// 깊이에 상관없이 댓글 하나를 찾아 바꿈 (없으면 그대로)
+const updateCommentInTree = (
+  list: CommentWithLikes[],
+  commentId: string,
+  updater: (comment: CommentWithLikes) => CommentWithLikes
+): CommentWithLikes[] =>
+  list.map((comment) => {
+    if (comment.id === commentId) return updater(comment)
+    if (!comment.replies || comment.replies.length === 0) return comment
+    return { ...comment, replies: updateCommentInTree(comment.replies, commentId, updater) }
+  })
+
+// 불러온 답글을 원 댓글 아래에 넣음 (이미 불러온 더 깊은 답글은 유지)
+const mergeReplies = (list: CommentWithLikes[], parentId: string, replies: CommentWithLikes[]) =>
+  updateCommentInTree(list, parentId, (comment) => {
+    const loadedReplies = new Map((comment.replies || []).map((reply) => [reply.id, reply.replies]))
+    return {
+      ...comment,
+      replies: replies.map((reply) => ({ ...reply, replies: loadedReplies.get(reply.id) || [] })),
+    }
+  })
+
+const findCommentInTree = (list: CommentWithLikes[], commentId: string): CommentWithLikes | undefined => {
+  for (const comment of list) {
+    if (comment.id === commentId) return comment
+    const found = comment.replies && findCommentInTree(comment.replies, commentId)
+    if (found) return found
+  }
+  return undefined
+}
+
+// #comment-<id> → 댓글 id (형식이 잘못된 %-인코딩이면 무시)
+const getLinkedCommentId = (hash: string) => {
+  if (!hash.startsWith(COMMENT_HASH_PREFIX)) return null
+  try {
+    return decodeURIComponent(hash.slice(COMMENT_HASH_PREFIX.length))
+  } catch {
+    return null
+  }
+}
+
+const toCommentWithLikes = (comment: Comment, likedIds: Set<string>): CommentWithLikes => ({
+  ...comment,
+  likesCount: comment.likes_count,
+  isLiked: likedIds.has(comment.id),
+  repliesCount: comment.replies_count,
+  replies: [],
+})
+
+// 사용자가 좋아요한 댓글 (목록 전체를 한 번에 조회)
+const fetchLikedCommentIds = async (userId: string | undefined, commentIds: string[]) => {
+  if (!userId || commentIds.length === 0) return new Set<string>()
+
+  const { data, error } = await supabase
+    .from('comment_likes')
+    .select('comment_id')
+    .eq('user_id', userId)
+    .in('comment_id', commentIds)
+
+  if (error) throw error
+  return new Set((data || []).map((like) => like.comment_id))
+}
+
+// 댓글 하나의 바로 아래 답글 (오래된 순)
+const fetchReplyList = async (parentId: string, userId: string | undefined) => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .select(`
+      *,
+      profiles:user_id (username, avatar_url)
+    `)
+    .eq('parent_id', parentId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const likedIds = await fetchLikedCommentIds(userId, data.map((reply) => reply.id))
+  return data.map((reply) => toCommentWithLikes(reply, likedIds))
+}
+
 export default function CommentSection({ postId }: CommentSectionProps) {
   const { user } = useAuth()
   const navigate = useNavigate()
+  const location = useLocation()
   const [comments, setComments] = useState<CommentWithLikes[]>([])
   const [newComment, setNewComment] = useState('')
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
@@ -47,17 +152,182 @@ export default function CommentSection({ postId }: CommentSectionProps) {
   const [submitting, setSubmitting] = useState(false)
   const [hasMore, setHasMore] = useState(false)
   const [offset, setOffset] = useState(0)
+  const [sort, setSort] = useState<CommentSort>('newest')
+  // 실시간으로 도착했지만 아직 목록에 합치지 않은 새 댓글 (최신순)
+  const [pendingComments, setPendingComments] = useState<CommentWithLikes[]>([])
+  // "이 스레드 계속 보기"로 따로 보고 있는 댓글
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null)
+  const sectionRef = useRef<HTMLDivElement>(null)
+  const userId = user?.id
+  // 주소의 #comment-<id>가 가리키는 댓글
+  const linkedCommentId = getLinkedCommentId(location.hash)
 
   useEffect(() => {
     fetchComments()
-  }, [postId])
+  }, [postId, sort])
+
+  // 다른 사용자의 댓글/답글, 수정, 삭제, 좋아요를 실시간으로 반영
+  useEffect(() => {
+    const handleInsert = async (row: Comment) => {
+      // 내가 쓴 댓글은 작성 후 목록을 새로 불러오므로 건너뜀
+      if (row.user_id === userId) return
+
+      const { data, error } = await supabase
+        .from('post_comments')
+        .select(`
+          *,
+          profiles:user_id (username, avatar_url)
+        `)
+        .eq('id', row.id)
+        .single()
+
+      if (error || !data) {
+        console.error('Error fetching new comment:', error)
+        return
+      }
+
+      const newComment = toCommentWithLikes(data, new Set())
+
+      const parentId = newComment.parent_id
+      if (!parentId) {
+        // 읽던 위치가 밀리지 않도록 바로 넣지 않고 배너로 알림
+        setPendingComments((prev) => (prev.some((c) => c.id === newComment.id) ? prev : [newComment, ...prev]))
+        // 최신순 목록 앞에 한 개가 생겼으므로 다음 페이지 시작 위치도 한 칸 뒤로
+        if (sort === 'newest') setOffset((prev) => prev + 1)
+        return
+      }
+
+      // 답글은 원 댓글의 답글을 불러온 상태면 맨 아래에 추가 (답글 수는 조상 댓글들의 수정 이벤트로 반영)
+      const addReply = (list: CommentWithLikes[]) =>
+        updateCommentInTree(list, parentId, (comment) => {
+          if (!comment.replies || comment.replies.length === 0) return comment
+          if (comment.replies.some((reply) => reply.id === newComment.id)) return comment
+          return { ...comment, replies: [...comment.replies, newComment] }
+        })
+      setComments(addReply)
+      setPendingComments(addReply)
+    }
+
+    // 수정/소프트 삭제와 좋아요/답글 수 변경은 내용만 바꾸고 위치는 그대로
+    const handleUpdate = (row: Comment) => {
+      const applyUpdate = (list: CommentWithLikes[]) =>
+        updateCommentInTree(list, row.id, (comment) => ({
+          ...comment,
+          content: row.content,
+          updated_at: row.updated_at,
+          deleted_at: row.deleted_at,
+          likesCount: row.likes_count,
+          repliesCount: row.replies_count,
+        }))
+      setComments(applyUpdate)
+      setPendingComments(applyUpdate)
+    }
+
+    const channel = supabase
+      .channel(`comments:${postId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'post_comments', filter: `post_id=eq.${postId}` },
+        (payload) => handleInsert(payload.new as Comment)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'post_comments', filter: `post_id=eq.${postId}` },
+        (payload) => handleUpdate(payload.new as Comment)
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [postId, userId, sort])
+
+  // 댓글 고유 주소로 들어오면 해당 댓글이 보이도록 펼친 뒤 스크롤
+  // (아직 불러오지 않은 페이지의 댓글이면 최상위 댓글을 목록 맨 위에 붙이고, 접힌 답글은 조상부터 차례로 펼침)
+  useEffect(() => {
+    if (loading || !linkedCommentId) return
+    let cancelled = false
+
+    const revealComment = async () => {
+      try {
+        const { data, error: pathError } = await supabase.rpc('get_comment_path', {
+          p_comment_id: linkedCommentId,
+        })
+
+        if (pathError) throw pathError
+        // 최상위 댓글 → 해당 댓글 순
+        const path: { id: string; parent_id: string | null; depth: number }[] = data || []
+        if (path.length === 0) {
+          toast.error('삭제되었거나 찾을 수 없는 댓글입니다.')
+          return
+        }
+
+        const { data: root, error: rootError } = await supabase
+          .from('post_comments')
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `)
+          .eq('id', path[0].id)
+          .eq('post_id', postId)
+          .maybeSingle()
+
+        if (rootError) throw rootError
+        // 다른 글의 댓글
+        if (!root || cancelled) return
+
+        const likedIds = await fetchLikedCommentIds(userId, [root.id])
+        if (cancelled) return
+        setComments((prev) =>
+          prev.some((comment) => comment.id === root.id) ? prev : [toCommentWithLikes(root, likedIds), ...prev]
+        )
+
+        const ancestors = path.slice(0, -1)
+        for (const ancestor of ancestors) {
+          const replies = await fetchReplyList(ancestor.id, userId)
+          if (cancelled) return
+          setComments((prev) => mergeReplies(prev, ancestor.id, replies))
+        }
+        setShowReplies((prev) => new Set([...prev, ...ancestors.map((ancestor) => ancestor.id)]))
+
+        // 펼쳐 보이는 깊이보다 깊으면 해당 댓글이 보이는 곳부터 따로 보기
+        const targetDepth = path.length - 1
+        setFocusedThreadId(targetDepth > MAX_THREAD_DEPTH ? path[targetDepth - MAX_THREAD_DEPTH].id : null)
+
+        setTimeout(() => {
+          document
+            .getElementById(`comment-${linkedCommentId}`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        }, 100)
+      } catch (error) {
+        console.error('Error revealing linked comment:', error)
+        toast.error('댓글을 불러오는데 실패했습니다.')
+      }
+    }
+
+    revealComment()
+
+    return () => {
+      cancelled = true
+    }
+  }, [linkedCommentId, loading, postId, userId])
+
+  const showPendingComments = () => {
+    setComments((prev) => {
+      const existingIds = new Set(prev.map((comment) => comment.id))
+      return [...pendingComments.filter((comment) => !existingIds.has(comment.id)), ...prev]
+    })
+    setPendingComments([])
+  }
 
   const fetchComments = async (loadMore = false) => {
     try {
       const currentOffset = loadMore ? offset : 0
       
+      const { column, ascending } = commentSortOptions[sort]
+
       // 최상위 댓글만 가져오기 (parent_id가 null인 것)
-      const { data: commentsData, error: commentsError } = await supabase
+      let query = supabase
         .from('post_comments')
         .select(`
           *,
@@ -65,7 +335,12 @@ export default function CommentSection({ postId }: CommentSectionProps) {
         `)
         .eq('post_id', postId)
         .is('parent_id', null)
-        .order('created_at', { ascending: false })
+        .order(column, { ascending })
+
+      // 좋아요/답글 수가 같으면 최신 댓글 먼저, 마지막은 id로 페이지 사이 순서 고정
+      if (column !== 'created_at') query = query.order('created_at', { ascending: false })
+      const { data: commentsData, error: commentsError } = await query
+        .order('id')
         .range(currentOffset, currentOffset + COMMENTS_PER_PAGE - 1)
 
       if (commentsError) throw commentsError
@@ -73,49 +348,24 @@ export default function CommentSection({ postId }: CommentSectionProps) {
       // 더 가져올 데이터가 있는지 확인
       setHasMore(commentsData.length === COMMENTS_PER_PAGE)
 
-      // 각 댓글의 좋아요 수와 답글 수 가져오기
-      const commentsWithData = await Promise.all(
-        commentsData.map(async (comment) => {
-          // 좋아요 수
-          const { count: likesCount } = await supabase
-            .from('comment_likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('comment_id', comment.id)
-
-          // 현재 사용자가 좋아요 눌렀는지
-          let isLiked = false
-          if (user) {
-            const { data: likeData } = await supabase
-              .from('comment_likes')
-              .select('id')
-              .eq('comment_id', comment.id)
-              .eq('user_id', user.id)
-              .single()
-            isLiked = !!likeData
-          }
-
-          // 답글 수
-          const { count: repliesCount } = await supabase
-            .from('post_comments')
-            .select('*', { count: 'exact', head: true })
-            .eq('parent_id', comment.id)
-
-          return {
-            ...comment,
-            likesCount: likesCount || 0,
-            isLiked,
-            repliesCount: repliesCount || 0,
-            replies: [],
-          }
-        })
-      )
+      // 좋아요 수와 답글 수는 댓글 행에 함께 저장되어 있음
+      const likedIds = await fetchLikedCommentIds(userId, commentsData.map((comment) => comment.id))
+      const commentsWithData = commentsData.map((comment) => toCommentWithLikes(comment, likedIds))
 
       if (loadMore) {
-        setComments([...comments, ...commentsWithData])
+        // 고유 주소로 먼저 붙여 둔 댓글은 건너뜀
+        setComments((prev) => {
+          const existingIds = new Set(prev.map((comment) => comment.id))
+          return [...prev, ...commentsWithData.filter((comment) => !existingIds.has(comment.id))]
+        })
         setOffset(currentOffset + COMMENTS_PER_PAGE)
       } else {
         setComments(commentsWithData)
         setOffset(COMMENTS_PER_PAGE)
+        setPendingComments([])
+        // 답글은 다시 불러와야 하므로 펼침 상태도 처음으로
+        setShowReplies(new Set())
+        setFocusedThreadId(null)
       }
     } catch (error) {
       console.error('Error fetching comments:', error)
@@ -199,12 +449,8 @@ export default function CommentSection({ postId }: CommentSectionProps) {
       toast.success('답글이 작성되었습니다.')
       setReplyContent('')
       setReplyingTo(null)
-      // 답글 목록 새로고침
-      await fetchComments()
-      // 답글 목록 펼치기
-      setTimeout(() => {
-        fetchReplies(parentId)
-      }, 100)
+      // 원 댓글의 답글 목록을 새로 불러와 펼침 (답글 수는 실시간 수정 이벤트로 반영)
+      await fetchReplies(parentId)
     } catch (error) {
       console.error('Error creating reply:', error)
       toast.error('답글 작성에 실패했습니다.')
@@ -213,7 +459,7 @@ export default function CommentSection({ postId }: CommentSectionProps) {
     }
   }
 
-  const handleEditComment = async (commentId: string, isReply: boolean = false, parentId?: string) => {
+  const handleEditComment = async (commentId: string) => {
     if (!editContent.trim()) {
       toast.error('댓글 내용을 입력해주세요.')
       return
@@ -226,11 +472,13 @@ export default function CommentSection({ postId }: CommentSectionProps) {
 
     setSubmitting(true)
     try {
+      const content = editContent.trim()
+      const updatedAt = new Date().toISOString()
       const { error } = await supabase
         .from('post_comments')
         .update({
-          content: editContent.trim(),
-          updated_at: new Date().toISOString(),
+          content,
+          updated_at: updatedAt,
         })
         .eq('id', commentId)
         .eq('user_id', user?.id)
@@ -240,14 +488,10 @@ export default function CommentSection({ postId }: CommentSectionProps) {
       toast.success('댓글이 수정되었습니다.')
       setEditingId(null)
       setEditContent('')
-      
-      if (isReply && parentId) {
-        // 답글 수정 시 답글만 새로고침
-        await fetchReplies(parentId)
-      } else {
-        // 댓글 수정 시 전체 새로고침
-        await fetchComments()
-      }
+      // 펼쳐 둔 답글이 접히지 않도록 다시 불러오지 않고 해당 댓글만 바꿈
+      setComments((prev) =>
+        updateCommentInTree(prev, commentId, (comment) => ({ ...comment, content, updated_at: updatedAt }))
+      )
     } catch (error) {
       console.error('Error updating comment:', error)
       toast.error('댓글 수정에 실패했습니다.')
@@ -256,15 +500,16 @@ export default function CommentSection({ postId }: CommentSectionProps) {
     }
   }
 
-  const handleDeleteComment = async (commentId: string, isReply: boolean = false, parentId?: string) => {
+  const handleDeleteComment = async (commentId: string) => {
     if (!window.confirm('정말 삭제하시겠습니까?')) return
 
     try {
-      // 소프트 삭제: deleted_at을 현재 시간으로 업데이트
+      // 소프트 삭제: deleted_at을 현재 시간으로 업데이트 (하위 답글은 그대로 남음)
+      const deletedAt = new Date().toISOString()
       const { error } = await supabase
         .from('post_comments')
         .update({
-          deleted_at: new Date().toISOString(),
+          deleted_at: deletedAt,
         })
         .eq('id', commentId)
         .eq('user_id', user?.id)
@@ -272,90 +517,54 @@ export default function CommentSection({ postId }: CommentSectionProps) {
       if (error) throw error
 
       toast.success('댓글이 삭제되었습니다.')
-      
-      if (isReply && parentId) {
-        // 답글 삭제 시
-        if (showReplies.has(parentId)) {
-          await fetchReplies(parentId) // 답글 목록 새로고침
-        }
-      } else {
-        // 댓글 삭제 시
-        await fetchComments()
-      }
+      setComments((prev) =>
+        updateCommentInTree(prev, commentId, (comment) => ({ ...comment, deleted_at: deletedAt }))
+      )
     } catch (error) {
       console.error('Error deleting comment:', error)
       toast.error('댓글 삭제에 실패했습니다.')
     }
   }
 
+  // 댓글 하나의 바로 아래 답글을 불러와 펼침 (이미 불러온 더 깊은 답글은 유지)
   const fetchReplies = async (parentId: string) => {
     try {
-      const { data: repliesData, error: repliesError } = await supabase
-        .from('post_comments')
-        .select(`
-          *,
-          profiles:user_id (username, avatar_url)
-        `)
-        .eq('parent_id', parentId)
-        .order('created_at', { ascending: true })
-
-      if (repliesError) throw repliesError
-
-      // 각 답글의 좋아요 수 가져오기
-      const repliesWithData = await Promise.all(
-        repliesData.map(async (reply) => {
-          const { count: likesCount } = await supabase
-            .from('comment_likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('comment_id', reply.id)
-
-          let isLiked = false
-          if (user) {
-            const { data: likeData } = await supabase
-              .from('comment_likes')
-              .select('id')
-              .eq('comment_id', reply.id)
-              .eq('user_id', user.id)
-              .single()
-            isLiked = !!likeData
-          }
-
-          return {
-            ...reply,
-            likesCount: likesCount || 0,
-            isLiked,
-            repliesCount: 0,
-            replies: [],
-          }
-        })
-      )
-
-      // 댓글 목록 업데이트
-      setComments(comments.map(comment => {
-        if (comment.id === parentId) {
-          return { ...comment, replies: repliesWithData }
-        }
-        return comment
-      }))
+      const replies = await fetchReplyList(parentId, userId)
+      setComments((prev) => mergeReplies(prev, parentId, replies))
 
       // 답글 표시
-      setShowReplies(new Set([...showReplies, parentId]))
+      setShowReplies((prev) => new Set(prev).add(parentId))
     } catch (error) {
       console.error('Error fetching replies:', error)
       toast.error('답글을 불러오는데 실패했습니다.')
     }
   }
 
-  const toggleReplies = (commentId: string) => {
-    if (showReplies.has(commentId)) {
+  // 접으면 하위 스레드 전체가 숨겨짐 (안쪽 답글의 펼침 상태는 기억해 두었다가 다시 펼칠 때 그대로)
+  const toggleReplies = (comment: CommentWithLikes) => {
+    if (showReplies.has(comment.id)) {
       const newShowReplies = new Set(showReplies)
-      newShowReplies.delete(commentId)
+      newShowReplies.delete(comment.id)
       setShowReplies(newShowReplies)
+    } else if (comment.replies && comment.replies.length > 0) {
+      setShowReplies(new Set([...showReplies, comment.id]))
     } else {
-      fetchReplies(commentId)
+      fetchReplies(comment.id)
     }
   }
 
+  // 깊은 스레드를 따로 보기
+  const openThread = (comment: CommentWithLikes) => {
+    setFocusedThreadId(comment.id)
+    if (!showReplies.has(comment.id)) toggleReplies(comment)
+    sectionRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }
+
+  const closeThread = () => {
+    setFocusedThreadId(null)
+    sectionRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }
+
   const handleToggleLike = async (commentId: string, isLiked: boolean) => {
     if (!user) {
       toast.error('로그인이 필요합니다.')
@@ -384,44 +593,331 @@ export default function CommentSection({ postId }: CommentSectionProps) {
         if (error) throw error
       }
 
-      // 좋아요 상태 업데이트 (댓글과 답글 모두)
-      setComments(comments.map(comment => {
-        if (comment.id === commentId) {
-          return {
-            ...comment,
-            isLiked: !isLiked,
-            likesCount: isLiked ? comment.likesCount - 1 : comment.likesCount + 1,
-          }
-        }
-        // 답글 확인
-        if (comment.replies && comment.replies.length > 0) {
-          return {
-            ...comment,
-            replies: comment.replies.map(reply => {
-              if (reply.id === commentId) {
-                return {
-                  ...reply,
-                  isLiked: !isLiked,
-                  likesCount: isLiked ? reply.likesCount - 1 : reply.likesCount + 1,
-                }
-              }
-              return reply
-            })
-          }
-        }
-        return comment
-      }))
+      // 좋아요 상태 업데이트 (깊이에 상관없이)
+      setComments((prev) =>
+        updateCommentInTree(prev, commentId, (comment) => ({ ...comment, isLiked: !isLiked }))
+      )
+
+      // 좋아요 수는 직접 더하거나 빼지 않고 트리거가 갱신한 값을 다시 읽음
+      // (실시간 수정 이벤트가 먼저 도착해도 어긋나지 않도록)
+      const { data: countData, error: countError } = await supabase
+        .from('post_comments')
+        .select('likes_count')
+        .eq('id', commentId)
+        .single()
+
+      if (countError) throw countError
+      setComments((prev) =>
+        updateCommentInTree(prev, commentId, (comment) => ({ ...comment, likesCount: countData.likes_count }))
+      )
     } catch (error) {
       console.error('Error toggling like:', error)
       toast.error('좋아요 처리에 실패했습니다.')
     }
   }
 
+  // 댓글 고유 주소 복사 (/post/:id#comment-<id>, 글 주소가 바뀌어도 유지)
+  const handleCopyLink = (commentId: string) => {
+    copyToClipboard(`${window.location.origin}/post/${postId}${COMMENT_HASH_PREFIX}${commentId}`)
+  }
+
+  // 댓글 하나와 그 아래 스레드 (depth 0 = 최상위 댓글 또는 따로 보고 있는 스레드의 시작 댓글)
+  const renderComment = (comment: CommentWithLikes, depth: number) => {
+    const isReply = depth > 0
+    const loadedReplies = comment.replies || []
+    const hasReplies = comment.repliesCount > 0 || loadedReplies.length > 0
+    const isExpanded = showReplies.has(comment.id) && loadedReplies.length > 0
+    // 너무 깊어지면 펼치지 않고 따로 보기로 안내
+    const continuesElsewhere = depth >= MAX_THREAD_DEPTH
+
+    const body = (
+      <>
+        {/* 댓글 헤더 */}
+        <div className={`flex items-start justify-between ${isReply ? 'mb-2' : 'mb-3'}`}>
+          <div className={`flex items-center ${isReply ? 'gap-2' : 'gap-3'}`}>
+            {comment.profiles?.avatar_url ? (
+              <img
+                src={comment.profiles.avatar_url}
+                alt={comment.profiles.username}
+                className={`${isReply ? 'w-8 h-8' : 'w-10 h-10'} rounded-full object-cover`}
+              />
+            ) : (
+              <div
+                className={`${
+                  isReply ? 'w-8 h-8 text-sm' : 'w-10 h-10'
+                } rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white font-bold`}
+              >
+                {comment.profiles?.username?.charAt(0).toUpperCase() || '?'}
+              </div>
+            )}
+            <div>
+              <p className={`font-semibold text-gray-900 ${isReply ? 'text-sm' : ''}`}>
+                {comment.deleted_at ? '삭제된 사용자' : (comment.profiles?.username || '알 수 없음')}
+              </p>
+              <p className={`${isReply ? 'text-xs' : 'text-sm'} text-gray-500`}>
+                {getRelativeTimeString(comment.created_at)}
+                {!comment.deleted_at && comment.created_at !== comment.updated_at && ' (수정됨)'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleCopyLink(comment.id)}
+              className="text-gray-500 hover:text-blue-600 transition-colors"
+              title="링크 복사"
+            >
+              <Link2 className={isReply ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+            </button>
+
+            {/* 수정/삭제 버튼 (본인 댓글만, 삭제되지 않은 경우만) */}
+            {user?.id === comment.user_id && !comment.deleted_at && (
+              <>
+                <button
+                  onClick={() => {
+                    setEditingId(comment.id)
+                    setEditContent(comment.content)
+                  }}
+                  className="text-gray-500 hover:text-blue-600 transition-colors"
+                  title="수정"
+                >
+                  <Edit2 className={isReply ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+                </button>
+                <button
+                  onClick={() => handleDeleteComment(comment.id)}
+                  className="text-gray-500 hover:text-red-600 transition-colors"
+                  title="삭제"
+                >
+                  <Trash2 className={isReply ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* 댓글 내용 */}
+        {comment.deleted_at ? (
+          isReply ? (
+            <div className="mb-2 py-2">
+              <p className="text-gray-400 italic text-sm">삭제된 댓글입니다</p>
+            </div>
+          ) : (
+            <div className="mb-3 py-2 px-4 bg-gray-100 rounded-lg">
+              <p className="text-gray-500 italic">삭제된 댓글입니다</p>
+            </div>
+          )
+        ) : editingId === comment.id ? (
+          <div className={isReply ? 'mb-2' : 'mb-3'}>
+            <textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              rows={isReply ? 2 : 3}
+              maxLength={1000}
+              className={`w-full ${
+                isReply ? 'px-3 py-2 text-sm' : 'px-4 py-3'
+              } border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none`}
+            />
+            <div className="flex justify-between items-center mt-2">
+              <span className={`${isReply ? 'text-xs' : 'text-sm'} text-gray-500`}>
+                {editContent.length}/1000
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setEditingId(null)
+                    setEditContent('')
+                  }}
+                  className={`${
+                    isReply ? 'px-3 py-1 text-sm rounded' : 'px-4 py-1.5 rounded-lg'
+                  } text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors`}
+                >
+                  취소
+                </button>
+                <button
+                  onClick={() => handleEditComment(comment.id)}
+                  disabled={submitting}
+                  className={`${
+                    isReply ? 'px-3 py-1 text-sm rounded' : 'px-4 py-1.5 rounded-lg'
+                  } bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors`}
+                >
+                  {submitting ? '저장 중...' : '저장'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className={`text-gray-800 whitespace-pre-wrap ${isReply ? 'text-sm mb-2' : 'mb-3'}`}>{comment.content}</p>
+        )}
+
+        {/* 댓글 액션 */}
+        <div className={`flex items-center ${isReply ? 'gap-3' : 'gap-4'}`}>
+          {!comment.deleted_at && (
+            <>
+              <button
+                onClick={() => handleToggleLike(comment.id, comment.isLiked)}
+                className={`flex items-center ${isReply ? 'gap-1 text-xs' : 'gap-1.5 text-sm'} transition-colors ${
+                  comment.isLiked
+                    ? 'text-red-600 hover:text-red-700'
+                    : 'text-gray-500 hover:text-red-600'
+                }`}
+              >
+                <Heart
+                  className={`${isReply ? 'w-3.5 h-3.5' : 'w-4 h-4'} ${comment.isLiked ? 'fill-current' : ''}`}
+                />
+                <span>{comment.likesCount}</span>
+              </button>
+
+              <button
+                onClick={() => {
+                  if (replyingTo === comment.id) {
+                    setReplyingTo(null)
+                    setReplyContent('')
+                  } else {
+                    setReplyingTo(comment.id)
+                    // @닉네임 자동 추가
+                    setReplyContent(`@${comment.profiles?.username || '알 수 없음'} `)
+                  }
+                }}
+                className={`flex items-center ${
+                  isReply ? 'gap-1 text-xs' : 'gap-1.5 text-sm'
+                } text-gray-500 hover:text-blue-600 transition-colors`}
+              >
+                <MessageCircle className={isReply ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+                <span>답글</span>
+              </button>
+            </>
+          )}
+
+          {/* 답글 수는 하위 스레드 전체 기준 */}
+          {hasReplies &&
+            (continuesElsewhere ? (
+              <button
+                onClick={() => openThread(comment)}
+                className={`flex items-center gap-1 ${isReply ? 'text-xs' : 'text-sm'} text-blue-600 hover:text-blue-700 font-medium`}
+              >
+                <CornerDownRight className="w-3.5 h-3.5" />
+                이 스레드 계속 보기 ({comment.repliesCount})
+              </button>
+            ) : (
+              <button
+                onClick={() => toggleReplies(comment)}
+                className={`${isReply ? 'text-xs' : 'text-sm'} text-blue-600 hover:text-blue-700 font-medium`}
+              >
+                {isExpanded ? '답글 숨기기' : `답글 ${comment.repliesCount}개 보기`}
+              </button>
+            ))}
+        </div>
+
+        {/* 답글 입력창 (삭제되지 않은 댓글만) */}
+        {replyingTo === comment.id && user && !comment.deleted_at && (
+          <div className={isReply ? 'mt-3 pl-4 border-l-2 border-gray-300' : 'mt-4 pl-8 border-l-2 border-blue-300'}>
+            <textarea
+              value={replyContent}
+              onChange={(e) => setReplyContent(e.target.value)}
+              placeholder="답글을 작성해주세요..."
+              rows={2}
+              maxLength={1000}
+              className={`w-full ${
+                isReply ? 'px-3 py-2 text-sm' : 'px-4 py-3'
+              } border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none`}
+            />
+            <div className="flex justify-between items-center mt-2">
+              <span className={`${isReply ? 'text-xs' : 'text-sm'} text-gray-500`}>
+                {replyContent.length}/1000
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setReplyingTo(null)
+                    setReplyContent('')
+                  }}
+                  className={`${
+                    isReply ? 'px-3 py-1 text-sm rounded' : 'px-4 py-1.5 rounded-lg'
+                  } text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors`}
+                >
+                  취소
+                </button>
+                <button
+                  onClick={() => handleSubmitReply(comment.id)}
+                  disabled={submitting || !replyContent.trim()}
+                  className={`${
+                    isReply ? 'px-3 py-1 text-sm rounded' : 'px-4 py-1.5 rounded-lg'
+                  } bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors`}
+                >
+                  {submitting ? '작성 중...' : '답글 작성'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </>
+    )
+
+    // 하위 답글 (들여쓰기는 MAX_INDENT_DEPTH까지만)
+    const isIndented = depth < MAX_INDENT_DEPTH
+    const replies = !continuesElsewhere && isExpanded && (
+      <div className={`mt-4 space-y-4 ${isIndented ? 'pl-8 border-l-2 border-blue-200' : ''}`}>
+        {loadedReplies.map((reply) => (
+          <div key={reply.id} className="relative">
+            {/* 연결선 */}
+            {isIndented && <div className="absolute -left-8 top-6 w-6 h-px bg-blue-200"></div>}
+            {renderComment(reply, depth + 1)}
+          </div>
+        ))}
+      </div>
+    )
+
+    // 고유 주소로 연 댓글은 강조
+    const isLinked = comment.id === linkedCommentId
+
+    if (!isReply) {
+      return (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div
+            id={`comment-${comment.id}`}
+            className={`scroll-mt-24 rounded-lg ${isLinked ? 'bg-yellow-50 ring-2 ring-yellow-300 ring-offset-4' : ''}`}
+          >
+            {body}
+          </div>
+          {replies}
+        </div>
+      )
+    }
+
+    return (
+      <>
+        <div
+          id={`comment-${comment.id}`}
+          className={`scroll-mt-24 rounded-lg p-4 ${isLinked ? 'bg-yellow-50 ring-2 ring-yellow-300' : 'bg-gray-50'}`}
+        >
+          {body}
+        </div>
+        {replies}
+      </>
+    )
+  }
+
+  const focusedThread = focusedThreadId ? findCommentInTree(comments, focusedThreadId) : undefined
+
   return (
-    <div className="mt-12">
-      <h2 className="text-2xl font-bold mb-6">
-        댓글 <span className="text-gray-500">({comments.length})</span>
-      </h2>
+    <div ref={sectionRef} className="mt-12">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">
+          댓글 <span className="text-gray-500">({comments.length})</span>
+        </h2>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as CommentSort)}
+          aria-label="댓글 정렬"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {(Object.keys(commentSortOptions) as CommentSort[]).map((option) => (
+            <option key={option} value={option}>
+              {commentSortOptions[option].label}
+            </option>
+          ))}
+        </select>
+      </div>
 
       {/* 댓글 입력창 */}
       {user ? (
@@ -459,380 +955,60 @@ export default function CommentSection({ postId }: CommentSectionProps) {
         </div>
       )}
 
-      {/* 댓글 목록 */}
-      {loading ? (
-        <div className="flex justify-center py-8">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        </div>
-      ) : comments.length === 0 ? (
-        <div className="text-center py-12 text-gray-500">
-          첫 번째 댓글을 작성해보세요!
+      {focusedThread ? (
+        /* 깊은 스레드 따로 보기 */
+        <div className="space-y-4">
+          <button
+            onClick={closeThread}
+            className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            전체 댓글로 돌아가기
+          </button>
+          {renderComment(focusedThread, 0)}
         </div>
       ) : (
-        <div className="space-y-6">
-          {comments.map((comment) => (
-            <div key={comment.id} className="bg-white rounded-lg border border-gray-200 p-4">
-              {/* 댓글 헤더 */}
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-3">
-                  {comment.profiles?.avatar_url ? (
-                    <img
-                      src={comment.profiles.avatar_url}
-                      alt={comment.profiles.username}
-                      className="w-10 h-10 rounded-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white font-bold">
-                      {comment.profiles?.username?.charAt(0).toUpperCase() || '?'}
-                    </div>
-                  )}
-                  <div>
-                    <p className="font-semibold text-gray-900">
-                      {comment.deleted_at ? '삭제된 사용자' : (comment.profiles?.username || '알 수 없음')}
-                    </p>
-                    <p className="text-sm text-gray-500">
-                      {getRelativeTimeString(comment.created_at)}
-                      {!comment.deleted_at && comment.created_at !== comment.updated_at && ' (수정됨)'}
-                    </p>
-                  </div>
-                </div>
-
-                {/* 수정/삭제 버튼 (본인 댓글만, 삭제되지 않은 경우만) */}
-                {user?.id === comment.user_id && !comment.deleted_at && (
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => {
-                        setEditingId(comment.id)
-                        setEditContent(comment.content)
-                      }}
-                      className="text-gray-500 hover:text-blue-600 transition-colors"
-                      title="수정"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteComment(comment.id)}
-                      className="text-gray-500 hover:text-red-600 transition-colors"
-                      title="삭제"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                )}
-              </div>
-
-              {/* 댓글 내용 */}
-              {comment.deleted_at ? (
-                <div className="mb-3 py-2 px-4 bg-gray-100 rounded-lg">
-                  <p className="text-gray-500 italic">삭제된 댓글입니다</p>
-                </div>
-              ) : editingId === comment.id ? (
-                <div className="mb-3">
-                  <textarea
-                    value={editContent}
-                    onChange={(e) => setEditContent(e.target.value)}
-                    rows={3}
-                    maxLength={1000}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  />
-                  <div className="flex justify-between items-center mt-2">
-                    <span className="text-sm text-gray-500">
-                      {editContent.length}/1000
-                    </span>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => {
-                          setEditingId(null)
-                          setEditContent('')
-                        }}
-                        className="px-4 py-1.5 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                      >
-                        취소
-                      </button>
-                      <button
-                        onClick={() => handleEditComment(comment.id)}
-                        disabled={submitting}
-                        className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-                      >
-                        {submitting ? '저장 중...' : '저장'}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ) : (
-                <p className="text-gray-800 mb-3 whitespace-pre-wrap">{comment.content}</p>
-              )}
+        <>
+          {/* 실시간으로 도착한 새 댓글 */}
+          {!loading && pendingComments.length > 0 && (
+            <button
+              onClick={showPendingComments}
+              className="w-full mb-6 py-2.5 bg-blue-50 text-blue-700 text-sm font-medium rounded-lg border border-blue-200 hover:bg-blue-100 transition-colors"
+            >
+              새 댓글 {pendingComments.length}개 보기
+            </button>
+          )}
 
-              {/* 댓글 액션 */}
-              <div className="flex items-center gap-4">
-                {!comment.deleted_at && (
-                  <>
-                    <button
-                      onClick={() => handleToggleLike(comment.id, comment.isLiked)}
-                      className={`flex items-center gap-1.5 text-sm transition-colors ${
-                        comment.isLiked
-                          ? 'text-red-600 hover:text-red-700'
-                          : 'text-gray-500 hover:text-red-600'
-                      }`}
-                    >
-                      <Heart
-                        className={`w-4 h-4 ${comment.isLiked ? 'fill-current' : ''}`}
-                      />
-                      <span>{comment.likesCount}</span>
-                    </button>
-
-                    <button
-                      onClick={() => {
-                        if (replyingTo === comment.id) {
-                          setReplyingTo(null)
-                          setReplyContent('')
-                        } else {
-                          setReplyingTo(comment.id)
-                          // @닉네임 자동 추가
-                          setReplyContent(`@${comment.profiles?.username || '알 수 없음'} `)
-                        }
-                      }}
-                      className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-blue-600 transition-colors"
-                    >
-                      <MessageCircle className="w-4 h-4" />
-                      <span>답글</span>
-                    </button>
-                  </>
-                )}
-
-                {comment.repliesCount > 0 && (
+          {/* 댓글 목록 */}
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : comments.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              첫 번째 댓글을 작성해보세요!
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {comments.map((comment) => (
+                <div key={comment.id}>{renderComment(comment, 0)}</div>
+              ))}
+
+              {/* 더보기 버튼 */}
+              {hasMore && (
+                <div className="text-center pt-4">
                   <button
-                    onClick={() => toggleReplies(comment.id)}
-                    className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                    onClick={() => fetchComments(true)}
+                    disabled={loading}
+                    className="px-6 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
                   >
-                    {showReplies.has(comment.id) ? '답글 숨기기' : `답글 ${comment.repliesCount}개 보기`}
+                    {loading ? '로딩 중...' : '댓글 더보기'}
                   </button>
-                )}
-              </div>
-
-              {/* 답글 목록 */}
-              {showReplies.has(comment.id) && comment.replies && comment.replies.length > 0 && (
-                <div className="mt-4 pl-8 border-l-2 border-blue-200 space-y-4">
-                  {comment.replies.map((reply) => (
-                    <div key={reply.id} className="bg-gray-50 rounded-lg p-4 relative">
-                      {/* 연결선 */}
-                      <div className="absolute -left-8 top-6 w-6 h-px bg-blue-200"></div>
-                      {/* 답글 헤더 */}
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          {reply.profiles?.avatar_url ? (
-                            <img
-                              src={reply.profiles.avatar_url}
-                              alt={reply.profiles.username}
-                              className="w-8 h-8 rounded-full object-cover"
-                            />
-                          ) : (
-                            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white text-sm font-bold">
-                              {reply.profiles?.username?.charAt(0).toUpperCase() || '?'}
-                            </div>
-                          )}
-                          <div>
-                            <p className="font-semibold text-sm text-gray-900">
-                              {reply.profiles?.username || '알 수 없음'}
-                            </p>
-                            <p className="text-xs text-gray-500">
-                              {getRelativeTimeString(reply.created_at)}
-                              {reply.created_at !== reply.updated_at && ' (수정됨)'}
-                            </p>
-                          </div>
-                        </div>
-
-                        {user?.id === reply.user_id && (
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => {
-                                setEditingId(reply.id)
-                                setEditContent(reply.content)
-                              }}
-                              className="text-gray-500 hover:text-blue-600 transition-colors"
-                            >
-                              <Edit2 className="w-3.5 h-3.5" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteComment(reply.id, true, comment.id)}
-                              className="text-gray-500 hover:text-red-600 transition-colors"
-                            >
-                              <Trash2 className="w-3.5 h-3.5" />
-                            </button>
-                          </div>
-                        )}
-                      </div>
-
-                      {/* 답글 내용 */}
-                      {reply.deleted_at ? (
-                        <div className="mb-2 py-2">
-                          <p className="text-gray-400 italic text-sm">삭제된 댓글입니다</p>
-                        </div>
-                      ) : editingId === reply.id ? (
-                        <div className="mb-2">
-                          <textarea
-                            value={editContent}
-                            onChange={(e) => setEditContent(e.target.value)}
-                            rows={2}
-                            maxLength={1000}
-                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                          />
-                          <div className="flex justify-between items-center mt-2">
-                            <span className="text-xs text-gray-500">
-                              {editContent.length}/1000
-                            </span>
-                            <div className="flex gap-2">
-                              <button
-                                onClick={() => {
-                                  setEditingId(null)
-                                  setEditContent('')
-                                }}
-                                className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
-                              >
-                                취소
-                              </button>
-                              <button
-                                onClick={() => handleEditComment(reply.id, true, comment.id)}
-                                disabled={submitting}
-                                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
-                              >
-                                {submitting ? '저장 중...' : '저장'}
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      ) : (
-                        <p className="text-sm text-gray-800 mb-2 whitespace-pre-wrap">{reply.content}</p>
-                      )}
-
-                      {/* 답글 액션 */}
-                      {!reply.deleted_at && (
-                        <div className="flex items-center gap-3">
-                          <button
-                            onClick={() => handleToggleLike(reply.id, reply.isLiked)}
-                            className={`flex items-center gap-1 text-xs transition-colors ${
-                              reply.isLiked
-                                ? 'text-red-600 hover:text-red-700'
-                                : 'text-gray-500 hover:text-red-600'
-                            }`}
-                          >
-                            <Heart
-                              className={`w-3.5 h-3.5 ${reply.isLiked ? 'fill-current' : ''}`}
-                            />
-                            <span>{reply.likesCount}</span>
-                          </button>
-
-                          <button
-                            onClick={() => {
-                              if (replyingTo === reply.id) {
-                                setReplyingTo(null)
-                                setReplyContent('')
-                              } else {
-                                setReplyingTo(reply.id)
-                                // @닉네임 자동 추가 (답글의 답글은 원 댓글에 추가)
-                                setReplyContent(`@${reply.profiles?.username || '알 수 없음'} `)
-                              }
-                            }}
-                            className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 transition-colors"
-                          >
-                            <MessageCircle className="w-3.5 h-3.5" />
-                            <span>답글</span>
-                          </button>
-                        </div>
-                      )}
-                      {/* 답글에 대한 답글 입력창 */}
-                      {replyingTo === reply.id && user && !reply.deleted_at && (
-                        <div className="mt-3 pl-4 border-l-2 border-gray-300">
-                          <textarea
-                            value={replyContent}
-                            onChange={(e) => setReplyContent(e.target.value)}
-                            placeholder="답글을 작성해주세요..."
-                            rows={2}
-                            maxLength={1000}
-                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                          />
-                          <div className="flex justify-between items-center mt-2">
-                            <span className="text-xs text-gray-500">
-                              {replyContent.length}/1000
-                            </span>
-                            <div className="flex gap-2">
-                              <button
-                                onClick={() => {
-                                  setReplyingTo(null)
-                                  setReplyContent('')
-                                }}
-                                className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
-                              >
-                                취소
-                              </button>
-                              <button
-                                onClick={() => handleSubmitReply(comment.id)}
-                                disabled={submitting || !replyContent.trim()}
-                                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
-                              >
-                                {submitting ? '작성 중...' : '답글 작성'}
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  ))}
                 </div>
               )}
-
-              {/* 답글 입력창 (삭제되지 않은 댓글만) */}
-              {replyingTo === comment.id && user && !comment.deleted_at && (
-                <div className="mt-4 pl-8 border-l-2 border-blue-300">
-                  <textarea
-                    value={replyContent}
-                    onChange={(e) => setReplyContent(e.target.value)}
-                    placeholder="답글을 작성해주세요..."
-                    rows={2}
-                    maxLength={1000}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                  />
-                  <div className="flex justify-between items-center mt-2">
-                    <span className="text-sm text-gray-500">
-                      {replyContent.length}/1000
-                    </span>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => {
-                          setReplyingTo(null)
-                          setReplyContent('')
-                        }}
-                        className="px-4 py-1.5 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                      >
-                        취소
-                      </button>
-                      <button
-                        onClick={() => handleSubmitReply(comment.id)}
-                        disabled={submitting || !replyContent.trim()}
-                        className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-                      >
-                        {submitting ? '작성 중...' : '답글 작성'}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          ))}
-
-          {/* 더보기 버튼 */}
-          {hasMore && (
-            <div className="text-center pt-4">
-              <button
-                onClick={() => fetchComments(true)}
-                disabled={loading}
-                className="px-6 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
-              >
-                {loading ? '로딩 중...' : '댓글 더보기'}
-              </button>
             </div>
           )}
-        </div>
+        </>
       )}
     </div>
   )
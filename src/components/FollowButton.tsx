@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { UserCheck, UserPlus } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+
+interface FollowButtonProps {
+  authorId: string
+  // 목록처럼 이미 팔로우 여부를 알고 있으면 넘겨서 조회를 생략
+  initialFollowing?: boolean
+  size?: 'sm' | 'md'
+  onFollowChange?: (following: boolean) => void
+}
+
+export default function FollowButton({ authorId, initialFollowing, size = 'md', onFollowChange }: FollowButtonProps) {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [isFollowing, setIsFollowing] = useState(initialFollowing ?? false)
+  const [inProgress, setInProgress] = useState(false)
+
+  useEffect(() => {
+    if (!user || initialFollowing !== undefined || user.id === authorId) return
+    let cancelled = false
+
+    const fetchFollowState = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('follows')
+          .select('follower_id')
+          .eq('follower_id', user.id)
+          .eq('following_id', authorId)
+          .maybeSingle()
+
+        if (error) throw error
+        if (!cancelled) setIsFollowing(!!data)
+      } catch (error) {
+        console.error('Error fetching follow state:', error)
+      }
+    }
+
+    fetchFollowState()
+    return () => {
+      cancelled = true
+    }
+  }, [user, authorId, initialFollowing])
+
+  // 자기 자신은 팔로우할 수 없음
+  if (user?.id === authorId) return null
+
+  const following = !!user && isFollowing
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (!user) {
+      toast.error('로그인이 필요합니다.')
+      navigate('/login')
+      return
+    }
+
+    if (inProgress) return
+    setInProgress(true)
+
+    try {
+      if (following) {
+        const { error } = await supabase
+          .from('follows')
+          .delete()
+          .eq('follower_id', user.id)
+          .eq('following_id', authorId)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('follows')
+          .insert({ follower_id: user.id, following_id: authorId })
+
+        // 이미 팔로우 중(중복 키)이면 성공으로 처리
+        if (error && error.code !== '23505') throw error
+      }
+
+      setIsFollowing(!following)
+      onFollowChange?.(!following)
+    } catch (error) {
+      console.error('Error toggling follow:', error)
+      toast.error(following ? '팔로우 취소에 실패했습니다.' : '팔로우에 실패했습니다.')
+    } finally {
+      setInProgress(false)
+    }
+  }
+
+  const sizeClass = size === 'sm' ? 'px-3 py-1 text-xs' : 'px-4 py-2 text-sm'
+  const iconClass = size === 'sm' ? 'w-3.5 h-3.5' : 'w-4 h-4'
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={inProgress}
+      className={`flex items-center gap-1.5 shrink-0 font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${sizeClass} ${
+        following
+          ? 'bg-gray-100 text-gray-700 hover:bg-red-50 hover:text-red-600'
+          : 'bg-blue-600 text-white hover:bg-blue-700'
+      }`}
+    >
+      {following ? <UserCheck className={iconClass} /> : <UserPlus className={iconClass} />}
+      {following ? '팔로잉' : '팔로우'}
+    </button>
+  )
+}
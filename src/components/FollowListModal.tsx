@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Users, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthorPath } from '../lib/slugUtils'
+import FollowButton from './FollowButton'
+
+export type FollowListType = 'followers' | 'following'
+
+interface FollowUser {
+  id: string
+  username: string
+  avatar_url: string | null
+  bio: string | null
+}
+
+interface FollowListModalProps {
+  userId: string
+  type: FollowListType
+  onClose: () => void
+  // 목록에서 내가 팔로우/언팔로우했을 때
+  onFollowChange?: (following: boolean) => void
+}
+
+export default function FollowListModal({ userId, type, onClose, onFollowChange }: FollowListModalProps) {
+  const { user } = useAuth()
+  const [users, setUsers] = useState<FollowUser[]>([])
+  // 목록에 있는 사람 중 내가 팔로우하는 사람
+  const [myFollowing, setMyFollowing] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        // 팔로워 목록은 follower 쪽, 팔로잉 목록은 following 쪽 프로필
+        const { data, error } =
+          type === 'followers'
+            ? await supabase
+                .from('follows')
+                .select(`
+                  *,
+                  profile:profiles!follows_follower_id_fkey (id, username, avatar_url, bio)
+                `)
+                .eq('following_id', userId)
+                .order('created_at', { ascending: false })
+            : await supabase
+                .from('follows')
+                .select(`
+                  *,
+                  profile:profiles!follows_following_id_fkey (id, username, avatar_url, bio)
+                `)
+                .eq('follower_id', userId)
+                .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        const list: FollowUser[] = (data || []).map((row: { profile: FollowUser }) => row.profile).filter(Boolean)
+
+        // 버튼마다 조회하지 않도록 내 팔로우 여부를 한 번에 가져옴
+        if (user && list.length > 0) {
+          const { data: followingData, error: followingError } = await supabase
+            .from('follows')
+            .select('following_id')
+            .eq('follower_id', user.id)
+            .in('following_id', list.map((item) => item.id))
+
+          if (followingError) throw followingError
+          setMyFollowing(new Set((followingData || []).map((row) => row.following_id)))
+        }
+
+        setUsers(list)
+      } catch (error) {
+        console.error('Error fetching follow list:', error)
+        toast.error('목록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsers()
+  }, [userId, type, user])
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 헤더 */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-bold text-gray-900">{type === 'followers' ? '팔로워' : '팔로잉'}</h2>
+            {!loading && <span className="text-sm text-gray-500">({users.length})</span>}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 text-gray-500 hover:text-gray-900 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : users.length === 0 ? (
+          <p className="py-16 text-center text-gray-500">
+            {type === 'followers' ? '아직 팔로워가 없습니다.' : '아직 팔로우한 작성자가 없습니다.'}
+          </p>
+        ) : (
+          <ul className="overflow-y-auto divide-y">
+            {users.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 px-6 py-3">
+                <Link to={getAuthorPath(item.username)} onClick={onClose} className="flex items-center gap-3 flex-1 min-w-0 group">
+                  {item.avatar_url ? (
+                    <img src={item.avatar_url} alt={item.username} className="w-10 h-10 rounded-full object-cover" />
+                  ) : (
+                    <div className="w-10 h-10 shrink-0 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white font-bold">
+                      {item.username.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors truncate">
+                      {item.username}
+                    </p>
+                    {item.bio && <p className="text-sm text-gray-500 truncate">{item.bio}</p>}
+                  </div>
+                </Link>
+                <FollowButton
+                  authorId={item.id}
+                  initialFollowing={myFollowing.has(item.id)}
+                  size="sm"
+                  onFollowChange={onFollowChange}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
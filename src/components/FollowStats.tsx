@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import FollowButton from './FollowButton'
+import FollowListModal, { type FollowListType } from './FollowListModal'
+
+interface FollowStatsProps {
+  userId: string
+  // 작성자 페이지처럼 다른 사람의 프로필이면 팔로우 버튼도 표시
+  showFollowButton?: boolean
+}
+
+// 팔로워/팔로잉 수 (누르면 목록)
+export default function FollowStats({ userId, showFollowButton = false }: FollowStatsProps) {
+  const { user } = useAuth()
+  const [followersCount, setFollowersCount] = useState(0)
+  const [followingCount, setFollowingCount] = useState(0)
+  const [openList, setOpenList] = useState<FollowListType | null>(null)
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      try {
+        const [followersResult, followingResult] = await Promise.all([
+          supabase
+            .from('follows')
+            .select('*', { count: 'exact', head: true })
+            .eq('following_id', userId),
+          supabase
+            .from('follows')
+            .select('*', { count: 'exact', head: true })
+            .eq('follower_id', userId),
+        ])
+
+        if (followersResult.error) throw followersResult.error
+        if (followingResult.error) throw followingResult.error
+
+        setFollowersCount(followersResult.count || 0)
+        setFollowingCount(followingResult.count || 0)
+      } catch (error) {
+        console.error('Error fetching follow counts:', error)
+      }
+    }
+
+    fetchCounts()
+  }, [userId])
+
+  // 이 프로필을 팔로우/언팔로우
+  const handleFollowChange = (following: boolean) => {
+    setFollowersCount((prev) => Math.max(0, prev + (following ? 1 : -1)))
+  }
+
+  // 내 프로필의 목록에서 다른 사람을 팔로우/언팔로우하면 내 팔로잉 수가 바뀜
+  const handleListFollowChange = (following: boolean) => {
+    if (user?.id === userId) {
+      setFollowingCount((prev) => Math.max(0, prev + (following ? 1 : -1)))
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <button
+        type="button"
+        onClick={() => setOpenList('followers')}
+        className="text-sm text-gray-600 hover:text-blue-600 transition-colors"
+      >
+        팔로워 <span className="font-bold text-gray-900">{followersCount.toLocaleString()}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => setOpenList('following')}
+        className="text-sm text-gray-600 hover:text-blue-600 transition-colors"
+      >
+        팔로잉 <span className="font-bold text-gray-900">{followingCount.toLocaleString()}</span>
+      </button>
+      {showFollowButton && <FollowButton authorId={userId} onFollowChange={handleFollowChange} />}
+
+      {openList && (
+        <FollowListModal
+          userId={userId}
+          type={openList}
+          onClose={() => setOpenList(null)}
+          onFollowChange={handleListFollowChange}
+        />
+      )}
+    </div>
+  )
+}
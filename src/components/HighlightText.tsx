@@ -0,0 +1,32 @@
+import { findMatchRanges } from '../lib/searchUtils'
+
+interface HighlightTextProps {
+  text: string
+  terms: string[]
+  className?: string
+}
+
+// 검색어와 일치하는 부분을 <mark>로 감싸서 표시
+export default function HighlightText({
+  text,
+  terms,
+  className = 'bg-yellow-200 text-gray-900 px-1 rounded',
+}: HighlightTextProps) {
+  const ranges = terms.length > 0 ? findMatchRanges(text, terms) : []
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className={className}>
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
@@ -2,8 +2,7 @@ import { useState, useRef } from 'react'
 import type { DragEvent } from 'react'
 import { Upload, X } from 'lucide-react'
 import { toast } from 'sonner'
-import { validateImageFile, resizeImage } from '../lib/imageUtils'
-import { supabase } from '../lib/supabase'
+import { validateImageFile, uploadPostImage } from '../lib/imageUtils'
 import { useAuth } from '../contexts/AuthContext'
 
 interface ImageUploadProps {
@@ -70,37 +69,8 @@ export default function ImageUpload({ imageUrl, onImageChange }: ImageUploadProp
     setUploadProgress(0)
 
     try {
-      // 이미지 리사이징
-      setUploadProgress(30)
-      const resizedBlob = await resizeImage(file)
-
-      // 파일명 생성 (고유한 파일명)
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${user.id}-${Date.now()}.${fileExt}`
-      const filePath = `thumbnails/${fileName}`
-
-      setUploadProgress(60)
-
-      // Supabase Storage에 업로드
-      const { error: uploadError } = await supabase.storage
-        .from('post-images')
-        .upload(filePath, resizedBlob, {
-          contentType: file.type,
-          cacheControl: '3600',
-          upsert: false,
-        })
-
-      if (uploadError) throw uploadError
-
-      setUploadProgress(90)
-
-      // Public URL 가져오기
-      const { data } = supabase.storage
-        .from('post-images')
-        .getPublicUrl(filePath)
-
-      setUploadProgress(100)
-      onImageChange(data.publicUrl)
+      const publicUrl = await uploadPostImage(file, user.id, 'thumbnails', setUploadProgress)
+      onImageChange(publicUrl)
       toast.success('이미지가 업로드되었습니다.')
     } catch (error) {
       console.error('Error uploading image:', error)
@@ -0,0 +1,321 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ClipboardEvent, DragEvent, KeyboardEvent } from 'react'
+import { toast } from 'sonner'
+import { Bold, Italic, Heading2, Heading3, Link2, Code, Quote, Columns2, PenLine, Eye, ImagePlus, Loader2 } from 'lucide-react'
+import MarkdownRenderer from './MarkdownRenderer'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  wrapSelection,
+  toggleLinePrefix,
+  insertLink,
+  insertCode,
+  insertText,
+  toImageAlt,
+  createImagePlaceholder,
+  replacePlaceholder,
+} from '../lib/editorUtils'
+import type { EditResult } from '../lib/editorUtils'
+import { ALLOWED_IMAGE_TYPES, validateImageFile, uploadPostImage } from '../lib/imageUtils'
+
+interface MarkdownEditorProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+}
+
+type ViewMode = 'edit' | 'preview' | 'split'
+
+type EditAction = (value: string, start: number, end: number) => EditResult
+
+interface ToolbarItem {
+  label: string
+  shortcut: string
+  icon: typeof Bold
+  action: EditAction
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+const modKey = isMac ? '⌘' : 'Ctrl'
+
+const toolbarItems: ToolbarItem[] = [
+  {
+    label: '굵게',
+    shortcut: `${modKey}+B`,
+    icon: Bold,
+    action: (v, s, e) => wrapSelection(v, s, e, '**', '**', '굵은 텍스트'),
+  },
+  {
+    label: '기울임',
+    shortcut: `${modKey}+I`,
+    icon: Italic,
+    action: (v, s, e) => wrapSelection(v, s, e, '*', '*', '기울인 텍스트'),
+  },
+  {
+    label: '제목 2',
+    shortcut: `${modKey}+Alt+2`,
+    icon: Heading2,
+    action: (v, s, e) => toggleLinePrefix(v, s, e, '## '),
+  },
+  {
+    label: '제목 3',
+    shortcut: `${modKey}+Alt+3`,
+    icon: Heading3,
+    action: (v, s, e) => toggleLinePrefix(v, s, e, '### '),
+  },
+  {
+    label: '링크',
+    shortcut: `${modKey}+K`,
+    icon: Link2,
+    action: insertLink,
+  },
+  {
+    label: '코드',
+    shortcut: `${modKey}+E`,
+    icon: Code,
+    action: insertCode,
+  },
+  {
+    label: '인용',
+    shortcut: `${modKey}+Shift+.`,
+    icon: Quote,
+    action: (v, s, e) => toggleLinePrefix(v, s, e, '> '),
+  },
+]
+
+// 키보드 단축키 → 툴바 동작 매핑
+const getShortcutAction = (e: KeyboardEvent<HTMLTextAreaElement>): EditAction | null => {
+  if (!(e.ctrlKey || e.metaKey)) return null
+
+  if (e.altKey) {
+    if (e.code === 'Digit2') return toolbarItems[2].action
+    if (e.code === 'Digit3') return toolbarItems[3].action
+    return null
+  }
+
+  if (e.shiftKey) {
+    return e.code === 'Period' ? toolbarItems[6].action : null
+  }
+
+  switch (e.key.toLowerCase()) {
+    case 'b':
+      return toolbarItems[0].action
+    case 'i':
+      return toolbarItems[1].action
+    case 'k':
+      return toolbarItems[4].action
+    case 'e':
+      return toolbarItems[5].action
+    default:
+      return null
+  }
+}
+
+// 모바일에서는 탭 전환, 넓은 화면에서는 나란히 보기가 기본
+const getInitialViewMode = (): ViewMode =>
+  typeof window !== 'undefined' && window.matchMedia('(min-width: 768px)').matches ? 'split' : 'edit'
+
+// 드래그 중인 데이터에 파일이 있는지
+const hasFiles = (e: DragEvent<HTMLElement>) => Array.from(e.dataTransfer.types).includes('Files')
+
+export default function MarkdownEditor({ value, onChange, placeholder }: MarkdownEditorProps) {
+  const { user } = useAuth()
+  const [viewMode, setViewMode] = useState<ViewMode>(getInitialViewMode)
+  const [isDragging, setIsDragging] = useState(false)
+  const [uploadingCount, setUploadingCount] = useState(0)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // 업로드 완료 시점의 최신 내용 (업로드 중에도 계속 입력할 수 있음)
+  const valueRef = useRef(value)
+
+  useEffect(() => {
+    valueRef.current = value
+  })
+
+  const updateValue = (next: string) => {
+    valueRef.current = next
+    onChange(next)
+  }
+
+  const applyEdit = (action: EditAction) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const result = action(valueRef.current, textarea.selectionStart, textarea.selectionEnd)
+    updateValue(result.value)
+
+    // 값이 반영된 뒤 선택 영역 복원
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd)
+    })
+  }
+
+  // 커서 위치에 자리 표시를 넣고, 업로드가 끝나면 실제 이미지 주소로 교체
+  const insertImages = async (files: File[]) => {
+    if (!user) {
+      toast.error('로그인이 필요합니다.')
+      return
+    }
+
+    const validFiles = files.filter((file) => {
+      const validation = validateImageFile(file)
+      if (!validation.valid) {
+        toast.error(validation.error || '파일을 업로드할 수 없습니다.')
+      }
+      return validation.valid
+    })
+    if (validFiles.length === 0) return
+
+    const uploads = validFiles.map((file) => ({ file, placeholder: createImagePlaceholder(file.name) }))
+    const markdown = uploads.map(({ placeholder }) => placeholder).join('\n')
+    applyEdit((v, s, e) => insertText(v, s, e, markdown))
+    setUploadingCount((count) => count + uploads.length)
+
+    await Promise.all(
+      uploads.map(async ({ file, placeholder }) => {
+        try {
+          const url = await uploadPostImage(file, user.id, 'content')
+          updateValue(replacePlaceholder(valueRef.current, placeholder, `![${toImageAlt(file.name)}](${url})`))
+        } catch (error) {
+          console.error('Error uploading image:', error)
+          toast.error(`${file.name} 업로드에 실패했습니다.`)
+          updateValue(replacePlaceholder(valueRef.current, placeholder, ''))
+        } finally {
+          setUploadingCount((count) => count - 1)
+        }
+      })
+    )
+  }
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((file) => file.type.startsWith('image/'))
+    if (images.length === 0) return
+
+    e.preventDefault()
+    insertImages(images)
+  }
+
+  const handleDragOver = (e: DragEvent<HTMLTextAreaElement>) => {
+    if (!hasFiles(e)) return
+    e.preventDefault()
+    setIsDragging(true)
+  }
+
+  const handleDrop = (e: DragEvent<HTMLTextAreaElement>) => {
+    setIsDragging(false)
+    if (!hasFiles(e)) return
+
+    e.preventDefault()
+    insertImages(Array.from(e.dataTransfer.files))
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    e.target.value = ''
+    if (files.length > 0) insertImages(files)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const action = getShortcutAction(e)
+    if (action) {
+      e.preventDefault()
+      applyEdit(action)
+    }
+  }
+
+  const viewModeButton = (mode: ViewMode, label: string, Icon: typeof Bold, className = '') => (
+    <button
+      type="button"
+      onClick={() => setViewMode(mode)}
+      className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${className} ${
+        viewMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      <Icon className="w-4 h-4" />
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="border border-gray-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all">
+      {/* 툴바 */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-2 py-1.5 bg-gray-50 border-b border-gray-200">
+        <div className="flex items-center gap-0.5">
+          {toolbarItems.map(({ label, shortcut, icon: Icon, action }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => applyEdit(action)}
+              disabled={viewMode === 'preview'}
+              title={`${label} (${shortcut})`}
+              aria-label={label}
+              className="p-2 text-gray-600 rounded hover:bg-gray-200 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={viewMode === 'preview'}
+            title="이미지 (끌어다 놓기, 붙여넣기 가능)"
+            aria-label="이미지"
+            className="p-2 text-gray-600 rounded hover:bg-gray-200 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <ImagePlus className="w-4 h-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_IMAGE_TYPES.join(',')}
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          {uploadingCount > 0 && (
+            <span className="flex items-center gap-1.5 ml-2 text-xs text-gray-500">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              이미지 업로드 중 ({uploadingCount})
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg">
+          {viewModeButton('edit', '작성', PenLine)}
+          {viewModeButton('preview', '미리보기', Eye)}
+          {viewModeButton('split', '나란히', Columns2, 'hidden md:flex')}
+        </div>
+      </div>
+
+      {/* 작성 / 미리보기 영역 */}
+      <div className={viewMode === 'split' ? 'grid grid-cols-1 md:grid-cols-2 md:divide-x divide-gray-200' : ''}>
+        <textarea
+          id="content"
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          rows={20}
+          className={`w-full min-h-[480px] px-4 py-3 font-mono text-sm border-none outline-none resize-y ${
+            viewMode === 'preview' ? 'hidden' : ''
+          } ${isDragging ? 'bg-blue-50' : ''}`}
+          placeholder={placeholder}
+        />
+        {viewMode !== 'edit' && (
+          <div className="min-h-[480px] max-h-[80vh] overflow-y-auto px-6 py-4 bg-white">
+            {value.trim() ? (
+              <MarkdownRenderer content={value} className="text-lg" />
+            ) : (
+              <p className="text-gray-400">미리볼 내용이 없습니다.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import ReactMarkdown from 'react-markdown'
+import type { Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import { ImageIcon, Link2 } from 'lucide-react'
+import CodeBlock from './CodeBlock'
+import { rehypeHeadingIds } from '../lib/headingUtils'
+import { getCodeBlockInfo, remarkCodeMeta } from '../lib/codeUtils'
+import { copyToClipboard } from '../lib/clipboardUtils'
+import { isUploadPlaceholderSrc } from '../lib/editorUtils'
+
+interface MarkdownRendererProps {
+  content: string
+  className?: string
+}
+
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+
+// 기본 sanitize 규칙 + 코드 블록 메타(줄 강조 정보) 허용
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code ?? []), 'dataMeta'],
+  },
+}
+
+// 제목 옆 링크 아이콘: 클릭하면 해당 위치로 이동하고 링크 복사
+function AnchoredHeading({ as: Tag, id, children }: { as: HeadingTag; id?: string; children?: React.ReactNode }) {
+  const handleCopyLink = async (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (!id) return
+    e.preventDefault()
+
+    const hash = `#${encodeURIComponent(id)}`
+    window.history.replaceState(null, '', hash)
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth' })
+
+    await copyToClipboard(`${window.location.origin}${window.location.pathname}${hash}`)
+  }
+
+  return (
+    <Tag id={id}>
+      {children}
+      {id && (
+        <a href={`#${id}`} onClick={handleCopyLink} className="heading-anchor" aria-label="이 제목의 링크 복사">
+          <Link2 className="w-4 h-4" />
+        </a>
+      )}
+    </Tag>
+  )
+}
+
+const components: Components = {
+  // 외부 링크는 새 탭에서 열기
+  a: ({ href, children }) => {
+    const isExternal = !!href && /^https?:\/\//.test(href)
+    return (
+      <a
+        href={href}
+        target={isExternal ? '_blank' : undefined}
+        rel={isExternal ? 'noopener noreferrer' : undefined}
+      >
+        {children}
+      </a>
+    )
+  },
+  // 에디터 미리보기에서 업로드 중인 이미지는 깨진 이미지 대신 로딩 자리 표시
+  img: ({ src, alt, title }) => {
+    if (typeof src === 'string' && isUploadPlaceholderSrc(src)) {
+      return (
+        <span className="flex items-center justify-center gap-2 w-full h-40 my-4 bg-gray-100 rounded-lg text-sm text-gray-500 animate-pulse">
+          <ImageIcon className="w-5 h-5" />
+          {alt || '업로드 중...'}
+        </span>
+      )
+    }
+    return <img src={src} alt={alt} title={title} />
+  },
+  // 코드 블록은 문법 강조 + 줄 번호 + 복사 버튼
+  pre: ({ node, children }) => {
+    const code = node?.children[0]
+    if (!code || code.type !== 'element' || code.tagName !== 'code') {
+      return <pre>{children}</pre>
+    }
+    return <CodeBlock {...getCodeBlockInfo(code)} />
+  },
+  h1: ({ id, children }) => <AnchoredHeading as="h1" id={id}>{children}</AnchoredHeading>,
+  h2: ({ id, children }) => <AnchoredHeading as="h2" id={id}>{children}</AnchoredHeading>,
+  h3: ({ id, children }) => <AnchoredHeading as="h3" id={id}>{children}</AnchoredHeading>,
+  h4: ({ id, children }) => <AnchoredHeading as="h4" id={id}>{children}</AnchoredHeading>,
+  h5: ({ id, children }) => <AnchoredHeading as="h5" id={id}>{children}</AnchoredHeading>,
+  h6: ({ id, children }) => <AnchoredHeading as="h6" id={id}>{children}</AnchoredHeading>,
+}
+
+// CommonMark + GFM(표, 체크리스트, 취소선) 렌더링, HTML은 sanitize 처리
+// 제목에는 목차(extractHeadings)와 같은 앵커 ID를 붙임
+export default function MarkdownRenderer({ content, className = '' }: MarkdownRendererProps) {
+  return (
+    <div className={`markdown-body ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkCodeMeta]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeHeadingIds]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -1,53 +1,91 @@
 import { Link, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
 import { useAuth } from '../contexts/AuthContext'
-import { Search, X } from 'lucide-react'
-import { useState, useRef, useEffect } from 'react'
+import { useUnreadNotifications } from '../hooks/useUnreadNotifications'
+import { useRecentSearches } from '../hooks/useRecentSearches'
+import { useSearchSuggestions, type SearchSuggestions } from '../hooks/useSearchSuggestions'
+import { getAuthorPath, getPostPath } from '../lib/slugUtils'
+import { getTagPath } from '../lib/tagUtils'
+import { getSearchTerms } from '../lib/searchUtils'
+import HighlightText from './HighlightText'
+import { Bell, FileText, Hash, Search, User, X } from 'lucide-react'
+import { useState, useRef } from 'react'
+
+// 검색창 드롭다운 항목 (방향키로 이동하는 순서대로)
+type SuggestionItem =
+  | { type: 'recent'; query: string }
+  | { type: 'post'; post: SearchSuggestions['posts'][number] }
+  | { type: 'author'; author: SearchSuggestions['authors'][number] }
+  | { type: 'tag'; tag: string; count: number }
+
+const suggestionGroupLabels: Record<SuggestionItem['type'], string> = {
+  recent: '최근 검색어',
+  post: '글',
+  author: '작성자',
+  tag: '태그',
+}
 
 export default function Navbar() {
   const { user, profile, signOut } = useAuth()
+  const unreadCount = useUnreadNotifications()
   const navigate = useNavigate()
   const [searchQuery, setSearchQuery] = useState('')
   const [isFocused, setIsFocused] = useState(false)
-  const [recentSearches, setRecentSearches] = useState<string[]>([])
   const [selectedIndex, setSelectedIndex] = useState(-1)
   const searchInputRef = useRef<HTMLInputElement>(null)
+  const { recentSearches, addRecentSearch, removeRecentSearch } = useRecentSearches()
+  const { suggestions, isLoading: suggestionsLoading } = useSearchSuggestions(searchQuery)
 
-  // 로컬스토리지에서 최근 검색어 불러오기
-  useEffect(() => {
-    const saved = localStorage.getItem('recentSearches')
-    if (saved) {
-      setRecentSearches(JSON.parse(saved))
-    }
-  }, [])
-
-  // 최근 검색어 저장
-  const saveRecentSearch = (query: string) => {
-    const trimmed = query.trim()
-    if (!trimmed) return
+  const keyword = searchQuery.trim()
+  const searchTerms = getSearchTerms(keyword)
 
-    const updated = [
-      trimmed,
-      ...recentSearches.filter(q => q !== trimmed)
-    ].slice(0, 5) // 최대 5개만 저장
+  // 입력 중이면 실시간 추천, 비어 있으면 최근 검색어
+  const suggestionItems: SuggestionItem[] = keyword
+    ? [
+        ...suggestions.posts.map((post) => ({ type: 'post' as const, post })),
+        ...suggestions.authors.map((author) => ({ type: 'author' as const, author })),
+        ...suggestions.tags.map(({ tag, post_count }) => ({ type: 'tag' as const, tag, count: post_count })),
+      ]
+    : recentSearches.map((query) => ({ type: 'recent' as const, query }))
 
-    setRecentSearches(updated)
-    localStorage.setItem('recentSearches', JSON.stringify(updated))
+  const closeSearch = () => {
+    setSearchQuery('')
+    setIsFocused(false)
+    setSelectedIndex(-1)
+    searchInputRef.current?.blur()
   }
 
   const handleSearch = (query: string = searchQuery) => {
     const trimmed = query.trim()
     if (!trimmed) return
 
-    saveRecentSearch(trimmed)
+    addRecentSearch(trimmed)
     navigate(`/search?q=${encodeURIComponent(trimmed)}`)
-    setSearchQuery('')
-    setIsFocused(false)
-    searchInputRef.current?.blur()
+    closeSearch()
+  }
+
+  // 추천 항목 선택: 최근 검색어는 다시 검색, 나머지는 해당 페이지로 바로 이동
+  const selectSuggestion = (item: SuggestionItem) => {
+    if (item.type === 'recent') {
+      handleSearch(item.query)
+      return
+    }
+
+    addRecentSearch(keyword)
+    if (item.type === 'post') {
+      navigate(getPostPath(item.post, item.post.profiles?.username))
+    } else if (item.type === 'author') {
+      navigate(getAuthorPath(item.author.username))
+    } else {
+      navigate(getTagPath(item.tag))
+    }
+    closeSearch()
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!isFocused || recentSearches.length === 0) {
+    if (e.nativeEvent.isComposing) return
+
+    if (!isFocused || suggestionItems.length === 0) {
       if (e.key === 'Enter') {
         handleSearch()
       }
@@ -57,15 +95,15 @@ export default function Navbar() {
     if (e.key === 'ArrowDown') {
       e.preventDefault()
       setSelectedIndex(prev => 
-        prev < recentSearches.length - 1 ? prev + 1 : prev
+        prev < suggestionItems.length - 1 ? prev + 1 : prev
       )
     } else if (e.key === 'ArrowUp') {
       e.preventDefault()
       setSelectedIndex(prev => prev > 0 ? prev - 1 : -1)
     } else if (e.key === 'Enter') {
       e.preventDefault()
-      if (selectedIndex >= 0) {
-        handleSearch(recentSearches[selectedIndex])
+      if (selectedIndex >= 0 && suggestionItems[selectedIndex]) {
+        selectSuggestion(suggestionItems[selectedIndex])
       } else {
         handleSearch()
       }
@@ -102,11 +140,15 @@ export default function Navbar() {
                 ref={searchInputRef}
                 type="text"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value)
+                  setSelectedIndex(-1)
+                }}
                 onKeyDown={handleKeyDown}
                 onFocus={() => setIsFocused(true)}
                 onBlur={() => setTimeout(() => setIsFocused(false), 200)}
                 placeholder="검색어를 입력하세요"
+                maxLength={100}
                 className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               {searchQuery && (
@@ -119,33 +161,128 @@ export default function Navbar() {
               )}
             </div>
 
-            {/* 최근 검색어 추천 */}
-            {isFocused && recentSearches.length > 0 && (
+            {/* 검색어 추천: 입력 중이면 글/작성자/태그, 비어 있으면 최근 검색어 */}
+            {isFocused && (keyword || recentSearches.length > 0) && (
               <div className="absolute top-full mt-2 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-2 z-50">
-                <p className="px-4 py-2 text-xs font-semibold text-gray-500">
-                  최근 검색어
-                </p>
-                {recentSearches.map((recent, index) => (
+                {suggestionItems.map((item, index) => {
+                  // 종류가 바뀌는 지점마다 그룹 제목 표시
+                  const showGroupLabel = index === 0 || suggestionItems[index - 1].type !== item.type
+                  const itemClassName = `w-full text-left px-4 py-2 hover:bg-blue-50 transition-colors ${
+                    selectedIndex === index ? 'bg-blue-50' : ''
+                  }`
+
+                  return (
+                    <div key={`${item.type}-${index}`}>
+                      {showGroupLabel && (
+                        <p className="px-4 py-2 text-xs font-semibold text-gray-500">
+                          {suggestionGroupLabels[item.type]}
+                        </p>
+                      )}
+                      {item.type === 'recent' ? (
+                        <div className={`flex items-center ${selectedIndex === index ? 'bg-blue-50' : ''}`}>
+                          <button
+                            onClick={() => selectSuggestion(item)}
+                            className="flex-1 min-w-0 text-left px-4 py-2 hover:bg-blue-50 transition-colors"
+                          >
+                            <div className="flex items-center gap-2">
+                              <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                              <span className="text-gray-700 truncate">{item.query}</span>
+                            </div>
+                          </button>
+                          <button
+                            // 입력창 포커스가 빠져 드롭다운이 닫히지 않도록
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => removeRecentSearch(item.query)}
+                            className="p-2 mr-2 text-gray-400 hover:text-red-500 transition-colors"
+                            aria-label={`최근 검색어 '${item.query}' 삭제`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <button onClick={() => selectSuggestion(item)} className={itemClassName}>
+                          {item.type === 'post' && (
+                            <div className="flex items-center gap-2">
+                              <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                              <span className="text-gray-700 truncate">
+                                <HighlightText text={item.post.title} terms={searchTerms} className="bg-transparent font-semibold text-blue-600" />
+                              </span>
+                              {item.post.profiles?.username && (
+                                <span className="ml-auto text-xs text-gray-400 flex-shrink-0">
+                                  @{item.post.profiles.username}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {item.type === 'author' && (
+                            <div className="flex items-center gap-2">
+                              {item.author.avatar_url ? (
+                                <img
+                                  src={item.author.avatar_url}
+                                  alt={item.author.username}
+                                  className="w-5 h-5 rounded-full object-cover flex-shrink-0"
+                                />
+                              ) : (
+                                <User className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                              )}
+                              <span className="text-gray-700 truncate">
+                                @<HighlightText text={item.author.username} terms={searchTerms} className="bg-transparent font-semibold text-blue-600" />
+                              </span>
+                            </div>
+                          )}
+                          {item.type === 'tag' && (
+                            <div className="flex items-center gap-2">
+                              <Hash className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                              <span className="text-gray-700 truncate">
+                                <HighlightText text={item.tag} terms={searchTerms} className="bg-transparent font-semibold text-blue-600" />
+                              </span>
+                              <span className="ml-auto text-xs text-gray-400 flex-shrink-0">{item.count}개</span>
+                            </div>
+                          )}
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+
+                {keyword && suggestionItems.length === 0 && (
+                  <p className="px-4 py-2 text-sm text-gray-500">
+                    {suggestionsLoading ? '추천 검색어를 불러오는 중...' : '추천 검색어가 없습니다.'}
+                  </p>
+                )}
+
+                {keyword && (
                   <button
-                    key={index}
-                    onClick={() => handleSearch(recent)}
-                    className={`w-full text-left px-4 py-2 hover:bg-blue-50 transition-colors ${
-                      selectedIndex === index ? 'bg-blue-50' : ''
-                    }`}
+                    onClick={() => handleSearch()}
+                    className="w-full text-left px-4 py-2 mt-1 border-t border-gray-100 text-sm text-blue-600 hover:bg-blue-50 transition-colors"
                   >
-                    <div className="flex items-center gap-2">
-                      <Search className="w-4 h-4 text-gray-400" />
-                      <span className="text-gray-700">{recent}</span>
-                    </div>
+                    '{keyword}' 전체 검색
                   </button>
-                ))}
+                )}
               </div>
             )}
           </div>
 
           <div className="flex items-center gap-4">
+            <Link to="/tags" className="px-2 py-2 text-gray-700 hover:text-blue-600 transition-colors">
+              태그
+            </Link>
             {user ? (
               <>
+                {/* 알림 */}
+                <Link
+                  to="/notifications"
+                  className="relative p-2 text-gray-700 hover:text-blue-600 transition-colors"
+                  aria-label={unreadCount > 0 ? `알림 (읽지 않음 ${unreadCount}개)` : '알림'}
+                  title="알림"
+                >
+                  <Bell className="w-5 h-5" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 flex items-center justify-center bg-red-500 text-white text-[10px] font-bold rounded-full">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Link>
                 <Link
                   to="/write"
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
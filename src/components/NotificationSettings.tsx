@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { BellRing } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { notificationTypeLabels, type NotificationType } from '../lib/notificationUtils'
+
+type NotificationPreferences = Record<NotificationType, boolean>
+
+// 설정을 저장한 적이 없으면 모든 알림을 받음
+const defaultPreferences: NotificationPreferences = {
+  post_like: true,
+  post_comment: true,
+  comment_reply: true,
+  comment_like: true,
+  follow: true,
+}
+
+// 마이페이지 알림 설정: 종류별로 알림 받기 on/off
+export default function NotificationSettings() {
+  const { user } = useAuth()
+  const [preferences, setPreferences] = useState<NotificationPreferences>(defaultPreferences)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!user) return
+
+    const fetchPreferences = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('notification_preferences')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle()
+
+        if (error) throw error
+        if (data) {
+          setPreferences({
+            post_like: data.post_like,
+            post_comment: data.post_comment,
+            comment_reply: data.comment_reply,
+            comment_like: data.comment_like,
+            follow: data.follow,
+          })
+        }
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreferences()
+  }, [user])
+
+  const handleToggle = async (type: NotificationType) => {
+    if (!user) return
+
+    const value = !preferences[type]
+    setPreferences((prev) => ({ ...prev, [type]: value }))
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, [type]: value, updated_at: new Date().toISOString() })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error updating notification preferences:', error)
+      toast.error('알림 설정 저장에 실패했습니다.')
+      setPreferences((prev) => ({ ...prev, [type]: !value }))
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mt-8">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-gray-900 mb-1">
+        <BellRing className="w-5 h-5 text-blue-600" />
+        알림 설정
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">받고 싶은 알림을 선택하세요. 끈 알림은 새로 만들어지지 않습니다.</p>
+
+      <ul className="divide-y divide-gray-100">
+        {(Object.keys(notificationTypeLabels) as NotificationType[]).map((type) => (
+          <li key={type} className="flex items-center justify-between gap-4 py-3">
+            <div>
+              <p className="font-medium text-gray-900">{notificationTypeLabels[type].label}</p>
+              <p className="text-sm text-gray-500">{notificationTypeLabels[type].description}</p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={preferences[type]}
+              aria-label={notificationTypeLabels[type].label}
+              onClick={() => handleToggle(type)}
+              disabled={loading}
+              className={`relative shrink-0 w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${
+                preferences[type] ? 'bg-blue-600' : 'bg-gray-300'
+              }`}
+            >
+              <span
+                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${
+                  preferences[type] ? 'translate-x-5' : ''
+                }`}
+              />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface PaginationProps {
+  currentPage: number
+  totalPages: number
+  onPageChange: (page: number) => void
+}
+
+// 현재 페이지 앞뒤로 보여줄 페이지 수
+const SIBLING_COUNT = 2
+
+// 처음/마지막 페이지와 현재 페이지 주변만 표시하고 사이는 생략 (1 … 4 5 6 7 8 … 20)
+const getPageItems = (currentPage: number, totalPages: number): (number | 'ellipsis')[] => {
+  const items: (number | 'ellipsis')[] = []
+  for (let page = 1; page <= totalPages; page++) {
+    if (page === 1 || page === totalPages || Math.abs(page - currentPage) <= SIBLING_COUNT) {
+      items.push(page)
+    } else if (items[items.length - 1] !== 'ellipsis') {
+      items.push('ellipsis')
+    }
+  }
+  return items
+}
+
+export default function Pagination({ currentPage, totalPages, onPageChange }: PaginationProps) {
+  if (totalPages <= 1) return null
+
+  return (
+    <div className="flex justify-center items-center gap-1 mt-10">
+      <button
+        onClick={() => onPageChange(currentPage - 1)}
+        disabled={currentPage === 1}
+        className="p-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="이전 페이지"
+      >
+        <ChevronLeft className="w-5 h-5" />
+      </button>
+      {getPageItems(currentPage, totalPages).map((pageNumber, index) =>
+        pageNumber === 'ellipsis' ? (
+          <span key={`ellipsis-${index}`} className="w-10 text-center text-gray-400">
+            …
+          </span>
+        ) : (
+          <button
+            key={pageNumber}
+            onClick={() => onPageChange(pageNumber)}
+            className={`w-10 h-10 rounded-lg text-sm font-medium transition-colors ${
+              pageNumber === currentPage ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {pageNumber}
+          </button>
+        )
+      )}
+      <button
+        onClick={() => onPageChange(currentPage + 1)}
+        disabled={currentPage >= totalPages}
+        className="p-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="다음 페이지"
+      >
+        <ChevronRight className="w-5 h-5" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,511 @@
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { History, Cloud, CloudOff, Loader2, Clock, Check, AlertCircle } from 'lucide-react'
+import ImageUpload from './ImageUpload'
+import MarkdownEditor from './MarkdownEditor'
+import SeriesPicker from './SeriesPicker'
+import TagInput from './TagInput'
+import { useAuth } from '../contexts/AuthContext'
+import { usePostDraft } from '../hooks/usePostDraft'
+import type { DraftValues } from '../lib/draftUtils'
+import { generateSlug, normalizeSlug } from '../lib/slugUtils'
+import { MAX_TAGS } from '../lib/tagUtils'
+import { supabase } from '../lib/supabase'
+import { hasPendingUploads } from '../lib/editorUtils'
+import { getRelativeTimeString, toDateTimeLocalValue } from '../lib/timeUtils'
+
+export interface PostFormValues {
+  title: string
+  content: string
+  tags: string[]
+  isPublic: boolean
+  // 예약 발행 시각 (ISO 문자열, 예약하지 않으면 null)
+  publishAt: string | null
+  slug: string
+  thumbnailUrl: string | null
+  seriesId: string | null
+  // 시리즈 안에서의 순서 (1부터, null이면 맨 뒤)
+  seriesOrder: number | null
+}
+
+interface PostEditorProps {
+  mode: 'write' | 'edit'
+  initialValues?: Partial<PostFormValues>
+  // 수정 중인 글 ID (글별 초안 구분)
+  postId?: string
+  // 마이페이지에서 이어서 작성할 초안 ID
+  draftId?: string | null
+  // 글의 마지막 저장 시각 (이보다 오래된 초안은 복구하지 않음)
+  lastUpdatedAt?: string | null
+  // 성공 여부를 반환 (성공 시 초안 삭제)
+  onSubmit: (values: PostFormValues) => Promise<boolean>
+  onCancel: () => void
+  // 상단 버튼 영역에 추가할 버튼 (예: 수정 기록)
+  headerActions?: React.ReactNode
+}
+
+type SlugStatus = 'idle' | 'checking' | 'available' | 'taken'
+
+// 작성/수정 모드별 문구
+const labels = {
+  write: {
+    heading: '새 글 작성',
+    submit: '발행하기',
+    submitting: '발행 중...',
+    schedule: '예약하기',
+    publicNotice: '✅ 발행하면 모든 사람이 볼 수 있습니다.',
+  },
+  edit: {
+    heading: '글 수정',
+    submit: '저장하기',
+    submitting: '저장 중...',
+    schedule: '예약 저장',
+    publicNotice: '✅ 저장하면 모든 사람이 볼 수 있습니다.',
+  },
+}
+
+export default function PostEditor({
+  mode,
+  initialValues = {},
+  postId,
+  draftId,
+  lastUpdatedAt,
+  onSubmit,
+  onCancel,
+  headerActions,
+}: PostEditorProps) {
+  const { user, profile } = useAuth()
+  const [title, setTitle] = useState(initialValues.title ?? '')
+  const [content, setContent] = useState(initialValues.content ?? '')
+  const [tags, setTags] = useState<string[]>(initialValues.tags ?? [])
+  const [isPublic, setIsPublic] = useState(initialValues.isPublic ?? true)
+  const [publishAt, setPublishAt] = useState(
+    initialValues.publishAt ? toDateTimeLocalValue(initialValues.publishAt) : ''
+  )
+  const [showSchedule, setShowSchedule] = useState(!!initialValues.publishAt)
+  const [slug, setSlug] = useState(initialValues.slug ?? '')
+  // 주소를 직접 수정했으면 제목을 바꿔도 자동으로 바꾸지 않음
+  const [slugEdited, setSlugEdited] = useState(mode === 'edit')
+  const [slugStatus, setSlugStatus] = useState<SlugStatus>('idle')
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(initialValues.thumbnailUrl ?? null)
+  const [seriesId, setSeriesId] = useState<string | null>(initialValues.seriesId ?? null)
+  const [seriesOrder, setSeriesOrder] = useState<number | null>(initialValues.seriesOrder ?? null)
+  const [loading, setLoading] = useState(false)
+
+  const text = labels[mode]
+  const isScheduled = !!publishAt
+
+  // 공개 전환 시 예약 해제
+  const handleTogglePublic = () => {
+    if (isScheduled) {
+      setPublishAt('')
+      setShowSchedule(false)
+      setIsPublic(true)
+      return
+    }
+    setIsPublic(!isPublic)
+  }
+
+  // 새 글은 제목을 바꾸면 주소도 자동으로 바뀜 (주소를 직접 수정하기 전까지)
+  const handleTitleChange = (value: string) => {
+    setTitle(value)
+    if (!slugEdited) {
+      setSlug(generateSlug(value))
+      setSlugStatus('checking')
+    }
+  }
+
+  const handleSlugChange = (value: string) => {
+    setSlug(normalizeSlug(value))
+    setSlugEdited(true)
+    setSlugStatus('checking')
+  }
+
+  // 같은 작성자의 다른 글이 이미 쓰고 있는 주소인지 확인
+  const slugValue = generateSlug(slug)
+  useEffect(() => {
+    if (!user || !slugValue) return
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      let query = supabase
+        .from('posts')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('slug', slugValue)
+
+      if (postId) {
+        query = query.neq('id', postId)
+      }
+
+      const { data, error } = await query.limit(1)
+      if (cancelled) return
+
+      if (error) {
+        console.error('Error checking slug:', error)
+        setSlugStatus('idle')
+        return
+      }
+      setSlugStatus(data.length > 0 ? 'taken' : 'available')
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [slugValue, user, postId])
+
+  // 겹치지 않는 주소 제안 (-2, -3 ...)
+  const handleSuggestSlug = () => {
+    const match = slugValue.match(/^(.*)-(\d+)$/)
+    const next = match ? `${match[1]}-${Number(match[2]) + 1}` : `${slugValue}-2`
+    handleSlugChange(next)
+  }
+
+  // 자동 저장 대상 값
+  const draftValues = useMemo<DraftValues>(
+    () => ({ title, content, tags, thumbnailUrl }),
+    [title, content, tags, thumbnailUrl]
+  )
+
+  const handleRestoreDraft = (values: DraftValues) => {
+    handleTitleChange(values.title)
+    setContent(values.content)
+    setTags(values.tags)
+    setThumbnailUrl(values.thumbnailUrl)
+  }
+
+  const {
+    recoveredDraft,
+    restoreDraft,
+    dismissDraft,
+    status: draftStatus,
+    lastSavedAt,
+    clearDraft,
+  } = usePostDraft({
+    userId: user?.id,
+    postId,
+    draftId,
+    values: draftValues,
+    since: lastUpdatedAt,
+    onRestore: handleRestoreDraft,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!title.trim() || !content.trim()) {
+      toast.error('제목과 내용을 모두 입력해주세요.')
+      return
+    }
+
+    if (slugStatus === 'taken') {
+      toast.error('이미 사용 중인 주소입니다. 다른 주소를 입력해주세요.')
+      return
+    }
+
+    if (hasPendingUploads(content)) {
+      toast.error('이미지 업로드가 끝난 뒤 다시 시도해주세요.')
+      return
+    }
+
+    // 예전 초안 등으로 개수를 넘긴 경우 잘라내지 않고 알려줌
+    if (tags.length > MAX_TAGS) {
+      toast.error(`태그는 최대 ${MAX_TAGS}개까지 입력할 수 있습니다. 태그를 ${tags.length - MAX_TAGS}개 삭제해주세요.`)
+      return
+    }
+
+    if (isScheduled && new Date(publishAt).getTime() <= Date.now()) {
+      toast.error('예약 시간은 현재 시간 이후로 설정해주세요.')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const success = await onSubmit({
+        title: title.trim(),
+        content: content.trim(),
+        tags,
+        // 예약된 글은 예약 시간까지 비공개
+        isPublic: isScheduled ? false : isPublic,
+        publishAt: isScheduled ? new Date(publishAt).toISOString() : null,
+        slug: slugValue || generateSlug(title),
+        thumbnailUrl,
+        seriesId,
+        seriesOrder,
+      })
+
+      if (success) {
+        await clearDraft()
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4">
+        {/* 상단 버튼 영역 */}
+        <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-4">
+              <h1 className="text-2xl font-bold text-gray-900">{text.heading}</h1>
+              {/* 자동 저장 상태 */}
+              <span className="hidden sm:flex items-center gap-1.5 text-xs text-gray-500">
+                {draftStatus === 'saving' ? (
+                  <>
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    저장 중...
+                  </>
+                ) : draftStatus === 'offline' ? (
+                  <>
+                    <CloudOff className="w-3.5 h-3.5 text-yellow-600" />
+                    오프라인 - 브라우저에 임시 저장됨
+                  </>
+                ) : draftStatus === 'error' ? (
+                  <>
+                    <CloudOff className="w-3.5 h-3.5 text-red-500" />
+                    자동 저장 실패 - 브라우저에 임시 저장됨
+                  </>
+                ) : lastSavedAt ? (
+                  <>
+                    <Cloud className="w-3.5 h-3.5" />
+                    자동 저장됨 · {getRelativeTimeString(lastSavedAt)}
+                  </>
+                ) : null}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              {/* 공개/비공개 스위치 */}
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">
+                  {isScheduled ? '예약' : isPublic ? '공개' : '비공개'}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleTogglePublic}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    isPublic && !isScheduled ? 'bg-blue-600' : 'bg-gray-300'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      isPublic && !isScheduled ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* 예약 발행 */}
+              <button
+                type="button"
+                onClick={() => setShowSchedule(!showSchedule)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  isScheduled
+                    ? 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                    : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                <Clock className="w-4 h-4" />
+                예약
+              </button>
+
+              {headerActions}
+
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={loading || !title.trim() || !content.trim()}
+                className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? text.submitting : isScheduled ? text.schedule : text.submit}
+              </button>
+            </div>
+          </div>
+
+          {/* 예약 시간 설정 */}
+          {showSchedule && (
+            <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-3">
+              <label htmlFor="publish-at" className="text-sm font-semibold text-gray-700">
+                발행 예약 시간
+              </label>
+              <input
+                type="datetime-local"
+                id="publish-at"
+                value={publishAt}
+                min={toDateTimeLocalValue(new Date())}
+                onChange={(e) => setPublishAt(e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {isScheduled && (
+                <button
+                  type="button"
+                  onClick={() => setPublishAt('')}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  예약 해제
+                </button>
+              )}
+              <p className="text-xs text-gray-500">
+                예약 시간까지 비공개로 유지되며, 시간이 되면 자동으로 공개됩니다.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* 초안 복구 안내 */}
+        {recoveredDraft && (
+          <div className="mb-6 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <History className="w-5 h-5 text-blue-600 shrink-0" />
+              <p className="text-sm text-blue-900">
+                저장되지 않은 초안이 있습니다
+                <span className="text-blue-700"> ({getRelativeTimeString(recoveredDraft.savedAt)} 저장)</span>
+                {recoveredDraft.title && (
+                  <span className="font-semibold"> - {recoveredDraft.title}</span>
+                )}
+                . 복원하시겠습니까?
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={dismissDraft}
+                className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                무시
+              </button>
+              <button
+                type="button"
+                onClick={restoreDraft}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                복원
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 글쓰기 폼 */}
+        <div className="bg-white rounded-lg shadow-sm p-8">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* 제목 */}
+            <div>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => handleTitleChange(e.target.value)}
+                className="w-full text-4xl font-bold border-none outline-none placeholder-gray-300 focus:ring-0"
+                placeholder="제목을 입력하세요"
+                required
+              />
+            </div>
+
+            {/* URL 주소 */}
+            <div className="py-3 px-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center gap-2 text-sm">
+                <label htmlFor="slug" className="font-medium text-gray-600 shrink-0">
+                  URL 주소:
+                </label>
+                <code className="text-gray-500 shrink-0">/@{profile?.username ?? ''}/</code>
+                <input
+                  type="text"
+                  id="slug"
+                  value={slug}
+                  onChange={(e) => handleSlugChange(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 font-mono text-blue-600 bg-white border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="my-post-title"
+                />
+              </div>
+              {slugValue && (
+                <p className="flex items-center gap-1 mt-2 text-xs">
+                  {slugStatus === 'checking' ? (
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      확인 중...
+                    </span>
+                  ) : slugStatus === 'taken' ? (
+                    <>
+                      <span className="flex items-center gap-1 text-red-600">
+                        <AlertCircle className="w-3.5 h-3.5" />
+                        이미 사용 중인 주소입니다.
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleSuggestSlug}
+                        className="ml-1 text-blue-600 hover:underline"
+                      >
+                        다른 주소 사용
+                      </button>
+                    </>
+                  ) : slugStatus === 'available' ? (
+                    <span className="flex items-center gap-1 text-green-600">
+                      <Check className="w-3.5 h-3.5" />
+                      사용할 수 있는 주소입니다.
+                    </span>
+                  ) : null}
+                </p>
+              )}
+            </div>
+
+            {/* 대표 이미지 업로드 */}
+            <ImageUpload
+              imageUrl={thumbnailUrl}
+              onImageChange={setThumbnailUrl}
+            />
+
+            {/* 시리즈 */}
+            <SeriesPicker
+              seriesId={seriesId}
+              position={seriesOrder}
+              onChange={(nextSeriesId, nextOrder) => {
+                setSeriesId(nextSeriesId)
+                setSeriesOrder(nextOrder)
+              }}
+              postId={postId}
+              postTitle={title}
+            />
+
+            {/* 태그 입력 */}
+            <div>
+              <label htmlFor="tags" className="block text-sm font-semibold text-gray-700 mb-2">
+                태그 <span className="text-gray-400 font-normal">(최대 {MAX_TAGS}개)</span>
+              </label>
+              <TagInput id="tags" tags={tags} onChange={setTags} />
+            </div>
+
+            {/* 내용 에디터 */}
+            <div>
+              <label htmlFor="content" className="block text-sm font-semibold text-gray-700 mb-2">
+                내용 <span className="text-gray-400 font-normal">(마크다운 지원, 이미지는 끌어다 놓거나 붙여넣기)</span>
+              </label>
+              <MarkdownEditor
+                value={content}
+                onChange={setContent}
+                placeholder="당신의 이야기를 들려주세요..."
+              />
+            </div>
+          </form>
+        </div>
+
+        {/* 하단 안내 */}
+        <div className="mt-6 text-center">
+          <p className="text-sm text-gray-500">
+            {isScheduled
+              ? `⏰ ${new Date(publishAt).toLocaleString('ko-KR')}에 자동으로 공개됩니다.`
+              : isPublic
+              ? text.publicNotice
+              : '🔒 비공개 글은 본인만 볼 수 있습니다.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
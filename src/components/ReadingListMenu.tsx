@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Globe, ListPlus, Lock, Plus } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+
+interface ReadingList {
+  id: string
+  name: string
+  is_public: boolean
+}
+
+interface ReadingListMenuProps {
+  postId: string
+}
+
+// 글을 내 읽기 목록에 추가/제거하는 팝업
+export default function ReadingListMenu({ postId }: ReadingListMenuProps) {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [lists, setLists] = useState<ReadingList[]>([])
+  // 이 글이 들어 있는 목록
+  const [containing, setContaining] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newIsPublic, setNewIsPublic] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  const fetchLists = async () => {
+    if (!user) return
+    setLoading(true)
+    try {
+      const { data: listsData, error: listsError } = await supabase
+        .from('reading_lists')
+        .select('id, name, is_public')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+
+      if (listsError) throw listsError
+
+      const listIds = (listsData || []).map((list) => list.id)
+      if (listIds.length > 0) {
+        const { data: itemsData, error: itemsError } = await supabase
+          .from('reading_list_items')
+          .select('reading_list_id')
+          .eq('post_id', postId)
+          .in('reading_list_id', listIds)
+
+        if (itemsError) throw itemsError
+        setContaining(new Set((itemsData || []).map((item) => item.reading_list_id)))
+      }
+
+      setLists(listsData || [])
+    } catch (error) {
+      console.error('Error fetching reading lists:', error)
+      toast.error('읽기 목록을 불러오는데 실패했습니다.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpen = () => {
+    if (!user) {
+      toast.error('로그인이 필요합니다.')
+      navigate('/login')
+      return
+    }
+    if (!open) fetchLists()
+    setOpen(!open)
+  }
+
+  const handleToggleList = async (list: ReadingList) => {
+    const included = containing.has(list.id)
+
+    try {
+      if (included) {
+        const { error } = await supabase
+          .from('reading_list_items')
+          .delete()
+          .eq('reading_list_id', list.id)
+          .eq('post_id', postId)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('reading_list_items')
+          .insert({ reading_list_id: list.id, post_id: postId })
+
+        if (error && error.code !== '23505') throw error
+      }
+
+      setContaining((prev) => {
+        const next = new Set(prev)
+        if (included) next.delete(list.id)
+        else next.add(list.id)
+        return next
+      })
+      toast.success(included ? `'${list.name}'에서 뺐습니다.` : `'${list.name}'에 추가했습니다.`)
+    } catch (error) {
+      console.error('Error updating reading list:', error)
+      toast.error('읽기 목록 변경에 실패했습니다.')
+    }
+  }
+
+  // 새 목록을 만들고 바로 이 글을 추가
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!user || !name || creating) return
+
+    setCreating(true)
+    try {
+      const { data, error } = await supabase
+        .from('reading_lists')
+        .insert({ user_id: user.id, name, is_public: newIsPublic })
+        .select('id, name, is_public')
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('같은 이름의 목록이 이미 있습니다.')
+          return
+        }
+        throw error
+      }
+
+      const { error: itemError } = await supabase
+        .from('reading_list_items')
+        .insert({ reading_list_id: data.id, post_id: postId })
+
+      if (itemError) throw itemError
+
+      setLists((prev) => [data, ...prev])
+      setContaining((prev) => new Set(prev).add(data.id))
+      setNewName('')
+      setNewIsPublic(false)
+      toast.success(`'${data.name}' 목록을 만들고 추가했습니다.`)
+    } catch (error) {
+      console.error('Error creating reading list:', error)
+      toast.error('읽기 목록 생성에 실패했습니다.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="flex items-center gap-2 px-6 py-2.5 bg-white text-gray-700 rounded-lg font-medium hover:bg-gray-100 border border-gray-300 transition-colors"
+      >
+        <ListPlus className="w-5 h-5" />
+        <span>목록에 저장</span>
+      </button>
+
+      {open && (
+        <>
+          {/* 바깥을 누르면 닫기 */}
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 bg-white border border-gray-200 rounded-xl shadow-xl z-40 overflow-hidden">
+            <div className="px-4 py-3 border-b flex items-center justify-between">
+              <p className="font-semibold text-gray-900">읽기 목록에 저장</p>
+              <Link to="/mypage" className="text-xs text-blue-600 hover:underline">
+                목록 관리
+              </Link>
+            </div>
+
+            <div className="max-h-60 overflow-y-auto py-1">
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
+              ) : lists.length === 0 ? (
+                <p className="px-4 py-4 text-sm text-gray-500 text-center">아직 만든 목록이 없습니다.</p>
+              ) : (
+                lists.map((list) => (
+                  <label
+                    key={list.id}
+                    className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={containing.has(list.id)}
+                      onChange={() => handleToggleList(list)}
+                      className="w-4 h-4 text-blue-600 rounded"
+                    />
+                    <span className="flex-1 text-sm text-gray-800 truncate">{list.name}</span>
+                    {list.is_public ? (
+                      <Globe className="w-3.5 h-3.5 text-gray-400" />
+                    ) : (
+                      <Lock className="w-3.5 h-3.5 text-gray-400" />
+                    )}
+                  </label>
+                ))
+              )}
+            </div>
+
+            {/* 새 목록 */}
+            <form onSubmit={handleCreate} className="p-3 border-t bg-gray-50 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  maxLength={50}
+                  placeholder="새 목록 이름"
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={!newName.trim() || creating}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  만들기
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={newIsPublic}
+                  onChange={(e) => setNewIsPublic(e.target.checked)}
+                  className="w-3.5 h-3.5 text-blue-600 rounded"
+                />
+                다른 사람에게 공개
+              </label>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
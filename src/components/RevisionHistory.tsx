@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { diffLines, diffWordsWithSpace } from 'diff'
+import { History, RotateCcw, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { getRelativeTimeString } from '../lib/timeUtils'
+
+export interface Revision {
+  id: string
+  post_id: string
+  user_id: string
+  title: string
+  content: string
+  tags: string[] | null
+  thumbnail_url: string | null
+  created_at: string
+  profiles?: {
+    username: string
+  }
+}
+
+interface RevisionHistoryProps {
+  postId: string
+  onClose: () => void
+  onRestore: (revision: Revision) => Promise<void>
+}
+
+type DiffMode = 'line' | 'word'
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('ko-KR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+// 두 텍스트의 차이를 추가/삭제 강조로 표시
+function DiffView({ oldText, newText, mode }: { oldText: string; newText: string; mode: DiffMode }) {
+  const changes = useMemo(
+    () => (mode === 'line' ? diffLines(oldText, newText) : diffWordsWithSpace(oldText, newText)),
+    [oldText, newText, mode]
+  )
+
+  if (oldText === newText) {
+    return <p className="text-sm text-gray-500 italic">변경 사항 없음</p>
+  }
+
+  return (
+    <pre className="whitespace-pre-wrap break-words font-mono text-sm leading-relaxed">
+      {changes.map((change, index) => (
+        <span
+          key={index}
+          className={
+            change.added
+              ? 'bg-green-100 text-green-800'
+              : change.removed
+              ? 'bg-red-100 text-red-700 line-through'
+              : 'text-gray-700'
+          }
+        >
+          {change.value}
+        </span>
+      ))}
+    </pre>
+  )
+}
+
+export default function RevisionHistory({ postId, onClose, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [diffMode, setDiffMode] = useState<DiffMode>('line')
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('post_revisions')
+          .select(`
+            *,
+            profiles:user_id (username)
+          `)
+          .eq('post_id', postId)
+          .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        const list = data || []
+        setRevisions(list)
+        // 기본: 직전 기록과 최신 기록 비교
+        setToId(list[0]?.id ?? null)
+        setFromId(list[1]?.id ?? list[0]?.id ?? null)
+      } catch (error) {
+        console.error('Error fetching revisions:', error)
+        toast.error('수정 기록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRevisions()
+  }, [postId])
+
+  const fromRevision = revisions.find((revision) => revision.id === fromId)
+  const toRevision = revisions.find((revision) => revision.id === toId)
+
+  const handleRestore = async (revision: Revision) => {
+    if (!window.confirm(`${formatDateTime(revision.created_at)} 버전으로 복원하시겠습니까?\n작성 중인 내용은 사라집니다.`)) {
+      return
+    }
+
+    setRestoringId(revision.id)
+    try {
+      await onRestore(revision)
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 헤더 */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-bold text-gray-900">수정 기록</h2>
+            <span className="text-sm text-gray-500">({revisions.length})</span>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 text-gray-500 hover:text-gray-900 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">아직 수정 기록이 없습니다.</div>
+        ) : (
+          <div className="flex flex-col md:flex-row flex-1 min-h-0">
+            {/* 기록 목록 */}
+            <div className="md:w-80 border-b md:border-b-0 md:border-r overflow-y-auto max-h-60 md:max-h-none">
+              <div className="grid grid-cols-[2.5rem_2.5rem_1fr] items-center px-4 py-2 text-xs font-semibold text-gray-500 bg-gray-50 border-b sticky top-0">
+                <span>이전</span>
+                <span>이후</span>
+                <span>저장 시각</span>
+              </div>
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className={`grid grid-cols-[2.5rem_2.5rem_1fr] items-center px-4 py-3 border-b last:border-b-0 ${
+                    revision.id === toId || revision.id === fromId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="revision-from"
+                    checked={fromId === revision.id}
+                    onChange={() => setFromId(revision.id)}
+                    aria-label="이전 버전으로 선택"
+                  />
+                  <input
+                    type="radio"
+                    name="revision-to"
+                    checked={toId === revision.id}
+                    onChange={() => setToId(revision.id)}
+                    aria-label="이후 버전으로 선택"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                      {formatDateTime(revision.created_at)}
+                      {index === 0 && (
+                        <span className="px-1.5 py-0.5 bg-green-100 text-green-700 text-xs rounded">현재</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {revision.profiles?.username || '알 수 없음'} · {getRelativeTimeString(revision.created_at)}
+                    </p>
+                    {index > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="mt-1 inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        {restoringId === revision.id ? '복원 중...' : '이 버전으로 복원'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* 비교 결과 */}
+            <div className="flex-1 min-w-0 overflow-y-auto p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <p className="text-sm text-gray-600">
+                  <span className="px-1.5 bg-red-100 text-red-700 rounded">삭제</span>{' '}
+                  <span className="px-1.5 bg-green-100 text-green-800 rounded">추가</span>
+                </p>
+                <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg">
+                  {(['line', 'word'] as DiffMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setDiffMode(mode)}
+                      className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                        diffMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {mode === 'line' ? '줄 단위' : '단어 단위'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {fromRevision && toRevision && (
+                <div className="space-y-6">
+                  <section>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">제목</h3>
+                    <DiffView oldText={fromRevision.title} newText={toRevision.title} mode="word" />
+                  </section>
+                  <section>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">태그</h3>
+                    <DiffView
+                      oldText={(fromRevision.tags || []).join(', ')}
+                      newText={(toRevision.tags || []).join(', ')}
+                      mode="word"
+                    />
+                  </section>
+                  {fromRevision.thumbnail_url !== toRevision.thumbnail_url && (
+                    <section>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-2">대표 이미지</h3>
+                      <p className="text-sm text-gray-600">대표 이미지가 변경되었습니다.</p>
+                    </section>
+                  )}
+                  <section>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">내용</h3>
+                    <div className="p-4 bg-gray-50 rounded-lg border">
+                      <DiffView oldText={fromRevision.content} newText={toRevision.content} mode={diffMode} />
+                    </div>
+                  </section>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
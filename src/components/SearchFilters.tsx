@@ -0,0 +1,125 @@
+import { RotateCcw, SlidersHorizontal } from 'lucide-react'
+import TagInput from './TagInput'
+import { hasActiveFilters, searchSortLabels, type SearchFilterState, type SearchSort } from '../lib/searchUtils'
+
+interface SearchFiltersProps {
+  filters: SearchFilterState
+  onChange: (filters: SearchFilterState) => void
+}
+
+// 검색 페이지 필터: 태그, 작성자, 기간, 대표 이미지, 정렬
+export default function SearchFilters({ filters, onChange }: SearchFiltersProps) {
+  const update = (changes: Partial<SearchFilterState>) => onChange({ ...filters, ...changes })
+
+  const commitAuthor = (value: string) => {
+    const author = value.trim().replace(/^@/, '')
+    if (author !== filters.author) update({ author })
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 font-bold text-gray-900">
+          <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+          검색 필터
+        </h2>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => update({ tags: [], author: '', from: '', to: '', hasThumbnail: false })}
+            className="flex items-center gap-1 text-sm text-gray-500 hover:text-blue-600 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            필터 초기화
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        {/* 태그 (모두 달린 글만) */}
+        <div className="md:col-span-2">
+          <label htmlFor="search-tags" className="block text-sm font-medium text-gray-700 mb-2">
+            태그
+          </label>
+          <TagInput id="search-tags" tags={filters.tags} onChange={(tags) => update({ tags })} />
+        </div>
+
+        {/* 작성자 */}
+        <div>
+          <label htmlFor="search-author" className="block text-sm font-medium text-gray-700 mb-2">
+            작성자
+          </label>
+          <div className="flex items-center px-3 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+            <span className="text-gray-400">@</span>
+            <input
+              // URL에서 바뀌면(초기화 등) 입력값도 다시 채움
+              key={filters.author}
+              id="search-author"
+              type="text"
+              defaultValue={filters.author}
+              onBlur={(e) => commitAuthor(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.nativeEvent.isComposing) commitAuthor(e.currentTarget.value)
+              }}
+              placeholder="닉네임"
+              className="flex-1 min-w-0 px-1 py-2 border-none outline-none focus:ring-0"
+            />
+          </div>
+        </div>
+
+        {/* 작성일 기간 */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">작성일</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => update({ from: e.target.value })}
+              aria-label="시작일"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-400">~</span>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => update({ to: e.target.value })}
+              aria-label="종료일"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {/* 대표 이미지 */}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filters.hasThumbnail}
+            onChange={(e) => update({ hasThumbnail: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded"
+          />
+          대표 이미지가 있는 글만
+        </label>
+
+        {/* 정렬 */}
+        <div className="flex items-center gap-2 md:justify-end">
+          <label htmlFor="search-sort" className="text-sm font-medium text-gray-700">
+            정렬:
+          </label>
+          <select
+            id="search-sort"
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as SearchSort })}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {(Object.keys(searchSortLabels) as SearchSort[]).map((sort) => (
+              <option key={sort} value={sort} disabled={sort === 'relevance' && !filters.query}>
+                {searchSortLabels[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Layers } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getPostPath } from '../lib/slugUtils'
+
+interface SeriesPost {
+  id: string
+  title: string
+  slug: string | null
+  series_order: number | null
+  is_public: boolean | null
+}
+
+interface SeriesInfo {
+  id: string
+  title: string
+  user_id: string
+  profiles?: {
+    username: string
+  }
+}
+
+interface SeriesNavigationProps {
+  seriesId: string
+  postId: string
+}
+
+export default function SeriesNavigation({ seriesId, postId }: SeriesNavigationProps) {
+  const { user } = useAuth()
+  const [series, setSeries] = useState<SeriesInfo | null>(null)
+  const [posts, setPosts] = useState<SeriesPost[]>([])
+  const [showIndex, setShowIndex] = useState(false)
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      try {
+        const [{ data: seriesData, error: seriesError }, { data: postsData, error: postsError }] =
+          await Promise.all([
+            supabase
+              .from('series')
+              .select(`
+                *,
+                profiles:user_id (username)
+              `)
+              .eq('id', seriesId)
+              .single(),
+            supabase
+              .from('posts')
+              .select('id, title, slug, series_order, is_public')
+              .eq('series_id', seriesId)
+              .order('series_order', { ascending: true })
+              .order('created_at', { ascending: true }),
+          ])
+
+        if (seriesError) throw seriesError
+        if (postsError) throw postsError
+
+        setSeries(seriesData)
+        setPosts(postsData || [])
+      } catch (error) {
+        console.error('Error fetching series:', error)
+      }
+    }
+
+    fetchSeries()
+  }, [seriesId])
+
+  if (!series) return null
+
+  // 작성자가 아니면 공개된 글만 순서에 포함
+  const isOwner = user?.id === series.user_id
+  const visiblePosts = posts.filter((post) => isOwner || post.is_public || post.id === postId)
+  const currentIndex = visiblePosts.findIndex((post) => post.id === postId)
+
+  if (currentIndex === -1) return null
+
+  const prevPost = visiblePosts[currentIndex - 1]
+  const nextPost = visiblePosts[currentIndex + 1]
+
+  return (
+    <div className="bg-blue-50 border border-blue-100 rounded-xl p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="flex items-center gap-1.5 text-xs font-semibold text-blue-600 mb-1">
+            <Layers className="w-4 h-4" />
+            시리즈
+          </p>
+          <Link
+            to={`/series/${series.id}`}
+            className="block text-lg font-bold text-gray-900 hover:text-blue-600 transition-colors truncate"
+          >
+            {series.title}
+          </Link>
+        </div>
+        <span className="shrink-0 text-sm text-gray-600">
+          <span className="font-semibold text-blue-600">{currentIndex + 1}</span> / {visiblePosts.length}
+        </span>
+      </div>
+
+      {/* 전체 목록 */}
+      <button
+        type="button"
+        onClick={() => setShowIndex(!showIndex)}
+        className="mt-4 flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        {showIndex ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        {showIndex ? '목록 숨기기' : '목록 보기'}
+      </button>
+      {showIndex && (
+        <ol className="mt-3 space-y-1">
+          {visiblePosts.map((post, index) => (
+            <li key={post.id}>
+              {post.id === postId ? (
+                <span className="flex gap-3 px-3 py-1.5 text-sm font-semibold text-blue-700 bg-white rounded-lg">
+                  <span className="w-5 text-blue-400">{index + 1}</span>
+                  <span className="truncate">{post.title}</span>
+                </span>
+              ) : (
+                <Link
+                  to={getPostPath(post, series.profiles?.username)}
+                  className="flex gap-3 px-3 py-1.5 text-sm text-gray-700 rounded-lg hover:bg-white transition-colors"
+                >
+                  <span className="w-5 text-gray-400">{index + 1}</span>
+                  <span className="truncate">{post.title}</span>
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* 이전/다음 글 */}
+      <div className="mt-4 flex justify-between gap-3">
+        {prevPost ? (
+          <Link
+            to={getPostPath(prevPost, series.profiles?.username)}
+            className="flex items-center gap-1 min-w-0 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-blue-300 transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4 shrink-0" />
+            <span className="truncate">{prevPost.title}</span>
+          </Link>
+        ) : (
+          <span />
+        )}
+        {nextPost && (
+          <Link
+            to={getPostPath(nextPost, series.profiles?.username)}
+            className="flex items-center gap-1 min-w-0 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-blue-300 transition-colors"
+          >
+            <span className="truncate">{nextPost.title}</span>
+            <ChevronRight className="w-4 h-4 shrink-0" />
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
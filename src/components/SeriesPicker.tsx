@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ChevronDown, ChevronUp, Layers, Plus } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+
+interface Series {
+  id: string
+  title: string
+}
+
+interface SeriesPost {
+  id: string
+  title: string
+  series_order: number | null
+}
+
+interface SeriesPickerProps {
+  seriesId: string | null
+  // 시리즈 안에서의 위치 (1부터, null이면 맨 뒤)
+  position: number | null
+  onChange: (seriesId: string | null, position: number | null) => void
+  // 수정 중인 글 ID (목록에서 제외)
+  postId?: string
+  postTitle: string
+}
+
+export default function SeriesPicker({ seriesId, position, onChange, postId, postTitle }: SeriesPickerProps) {
+  const { user } = useAuth()
+  const [seriesList, setSeriesList] = useState<Series[]>([])
+  const [seriesPosts, setSeriesPosts] = useState<SeriesPost[]>([])
+  const [newTitle, setNewTitle] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  // 내 시리즈 목록
+  useEffect(() => {
+    if (!user) return
+
+    const fetchSeries = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('series')
+          .select('id, title')
+          .eq('user_id', user.id)
+          .order('updated_at', { ascending: false })
+
+        if (error) throw error
+        setSeriesList(data || [])
+      } catch (error) {
+        console.error('Error fetching series:', error)
+      }
+    }
+
+    fetchSeries()
+  }, [user])
+
+  // 선택한 시리즈에 속한 다른 글 목록
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchSeriesPosts = async () => {
+      if (!seriesId) {
+        setSeriesPosts([])
+        return
+      }
+
+      try {
+        let query = supabase
+          .from('posts')
+          .select('id, title, series_order')
+          .eq('series_id', seriesId)
+
+        if (postId) {
+          query = query.neq('id', postId)
+        }
+
+        const { data, error } = await query
+          .order('series_order', { ascending: true })
+          .order('created_at', { ascending: true })
+
+        if (error) throw error
+        if (!cancelled) setSeriesPosts(data || [])
+      } catch (error) {
+        console.error('Error fetching series posts:', error)
+      }
+    }
+
+    fetchSeriesPosts()
+
+    return () => {
+      cancelled = true
+    }
+  }, [seriesId, postId])
+
+  const handleCreateSeries = async () => {
+    if (!user || !newTitle.trim()) return
+
+    setCreating(true)
+    try {
+      const { data, error } = await supabase
+        .from('series')
+        .insert({ title: newTitle.trim(), user_id: user.id })
+        .select('id, title')
+        .single()
+
+      if (error) throw error
+
+      setSeriesList((prev) => [data, ...prev])
+      setNewTitle('')
+      onChange(data.id, null)
+      toast.success('시리즈가 만들어졌습니다.')
+    } catch (error) {
+      console.error('Error creating series:', error)
+      toast.error('시리즈 생성에 실패했습니다.')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  // 현재 글의 표시 위치 (0부터)
+  const currentIndex = Math.min(Math.max((position ?? seriesPosts.length + 1) - 1, 0), seriesPosts.length)
+  const orderedTitles = [
+    ...seriesPosts.slice(0, currentIndex).map((post) => ({ id: post.id, title: post.title, current: false })),
+    { id: 'current', title: postTitle.trim() || '(제목 없음)', current: true },
+    ...seriesPosts.slice(currentIndex).map((post) => ({ id: post.id, title: post.title, current: false })),
+  ]
+
+  const moveCurrent = (offset: number) => {
+    const nextIndex = currentIndex + offset
+    if (nextIndex < 0 || nextIndex > seriesPosts.length) return
+    onChange(seriesId, nextIndex + 1)
+  }
+
+  return (
+    <div>
+      <label htmlFor="series" className="block text-sm font-semibold text-gray-700 mb-2">
+        시리즈 <span className="text-gray-400 font-normal">(선택)</span>
+      </label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          id="series"
+          value={seriesId ?? ''}
+          onChange={(e) => onChange(e.target.value || null, null)}
+          className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+        >
+          <option value="">시리즈 없음</option>
+          {seriesList.map((series) => (
+            <option key={series.id} value={series.id}>
+              {series.title}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2 sm:w-80">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleCreateSeries()
+              }
+            }}
+            placeholder="새 시리즈 이름"
+            className="flex-1 min-w-0 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={handleCreateSeries}
+            disabled={creating || !newTitle.trim()}
+            className="flex items-center gap-1 px-3 py-2.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            만들기
+          </button>
+        </div>
+      </div>
+
+      {/* 시리즈 내 순서 */}
+      {seriesId && (
+        <ol className="mt-3 border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {orderedTitles.map((item, index) => (
+            <li
+              key={item.id}
+              className={`flex items-center gap-3 px-4 py-2 text-sm ${
+                item.current ? 'bg-blue-50 text-blue-900 font-semibold' : 'text-gray-600'
+              }`}
+            >
+              <span className="w-6 text-gray-400">{index + 1}</span>
+              {item.current && <Layers className="w-4 h-4 text-blue-600 shrink-0" />}
+              <span className="flex-1 truncate">{item.title}</span>
+              {item.current && (
+                <span className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveCurrent(-1)}
+                    disabled={currentIndex === 0}
+                    className="p-1 rounded hover:bg-blue-100 disabled:opacity-30"
+                    aria-label="앞으로 이동"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveCurrent(1)}
+                    disabled={currentIndex === seriesPosts.length}
+                    className="p-1 rounded hover:bg-blue-100 disabled:opacity-30"
+                    aria-label="뒤로 이동"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { List } from 'lucide-react'
+import type { Heading } from '../lib/headingUtils'
+
+interface TableOfContentsProps {
+  headings: Heading[]
+}
+
+// 화면 상단에서 이 거리 안으로 들어온 제목을 현재 섹션으로 간주
+const ACTIVE_OFFSET = 120
+
+export default function TableOfContents({ headings }: TableOfContentsProps) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  // 스크롤 위치에 따라 현재 섹션 강조
+  useEffect(() => {
+    const handleScroll = () => {
+      let current: string | null = null
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id)
+        if (!element) continue
+        if (element.getBoundingClientRect().top > ACTIVE_OFFSET) break
+        current = heading.id
+      }
+      setActiveId(current)
+    }
+
+    window.addEventListener('scroll', handleScroll, { passive: true })
+    return () => window.removeEventListener('scroll', handleScroll)
+  }, [headings])
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>, id: string) => {
+    e.preventDefault()
+    window.history.replaceState(null, '', `#${encodeURIComponent(id)}`)
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth' })
+  }
+
+  // 가장 큰 제목 기준으로 들여쓰기
+  const minLevel = Math.min(...headings.map((heading) => heading.level))
+  const currentId = activeId ?? headings[0]?.id
+
+  return (
+    <nav aria-label="목차">
+      <p className="flex items-center gap-2 mb-3 text-sm font-semibold text-gray-900">
+        <List className="w-4 h-4" />
+        목차
+      </p>
+      <ul className="space-y-1 border-l border-gray-200 max-h-[70vh] overflow-y-auto">
+        {headings.map((heading) => (
+          <li key={heading.id}>
+            <a
+              href={`#${heading.id}`}
+              onClick={(e) => handleClick(e, heading.id)}
+              style={{ paddingLeft: `${(heading.level - minLevel) * 0.75 + 0.75}rem` }}
+              className={`block -ml-px py-1 pr-2 text-sm border-l-2 transition-colors ${
+                heading.id === currentId
+                  ? 'border-blue-600 text-blue-600 font-medium'
+                  : 'border-transparent text-gray-500 hover:text-gray-900'
+              }`}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, Hash, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import {
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  getTagColor,
+  normalizeTag,
+  resolveTag,
+  splitTagInput,
+  type TagAliases,
+} from '../lib/tagUtils'
+
+interface TagInputProps {
+  tags: string[]
+  onChange: (tags: string[]) => void
+  id?: string
+}
+
+interface TagSuggestion {
+  tag: string
+  count: number
+  // 별칭으로 찾은 경우 입력한 별칭
+  alias?: string
+}
+
+const MAX_SUGGESTIONS = 8
+
+export default function TagInput({ tags, onChange, id }: TagInputProps) {
+  const [input, setInput] = useState('')
+  const [tagCounts, setTagCounts] = useState<Map<string, number>>(new Map())
+  const [aliases, setAliases] = useState<TagAliases>({})
+  const [isFocused, setIsFocused] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [error, setError] = useState<string | null>(null)
+
+  // 자동완성용 기존 태그(사용 횟수 순)와 별칭
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const [countsResult, aliasesResult] = await Promise.all([
+          supabase.rpc('get_tag_counts'),
+          supabase.from('tag_aliases').select('alias, tag'),
+        ])
+
+        if (countsResult.error) throw countsResult.error
+        if (aliasesResult.error) throw aliasesResult.error
+
+        const counts: { tag: string; post_count: number }[] = countsResult.data || []
+        const aliasRows: { alias: string; tag: string }[] = aliasesResult.data || []
+        setTagCounts(new Map(counts.map(({ tag, post_count }) => [tag, post_count])))
+        setAliases(Object.fromEntries(aliasRows.map(({ alias, tag }) => [alias, tag])))
+      } catch (error) {
+        console.error('Error fetching tag suggestions:', error)
+      }
+    }
+
+    fetchTags()
+  }, [])
+
+  // 앞부분이 일치하는 태그를 먼저, 그 안에서는 많이 쓰인 순
+  const suggestions = useMemo<TagSuggestion[]>(() => {
+    const keyword = normalizeTag(input)
+    if (!keyword) return []
+
+    const prefixMatches: TagSuggestion[] = []
+    const otherMatches: TagSuggestion[] = []
+    tagCounts.forEach((count, tag) => {
+      if (tags.includes(tag)) return
+      if (tag.startsWith(keyword)) prefixMatches.push({ tag, count })
+      else if (tag.includes(keyword)) otherMatches.push({ tag, count })
+    })
+
+    // 별칭으로 입력하면 대표 태그를 추천 (예: 리액트 → react)
+    const aliasMatches: TagSuggestion[] = Object.entries(aliases)
+      .filter(([alias, tag]) => alias.startsWith(keyword) && !tags.includes(tag))
+      .map(([alias, tag]) => ({ tag, count: tagCounts.get(tag) ?? 0, alias }))
+
+    const seen = new Set<string>()
+    return [...aliasMatches, ...prefixMatches, ...otherMatches]
+      .filter(({ tag }) => {
+        if (seen.has(tag)) return false
+        seen.add(tag)
+        return true
+      })
+      .slice(0, MAX_SUGGESTIONS)
+  }, [input, tagCounts, aliases, tags])
+
+  const isFull = tags.length >= MAX_TAGS
+
+  // 정규화 + 별칭 병합 후 추가 (길이 초과/중복/개수 초과는 알려주고 건너뜀)
+  const addTags = (rawTags: string[]) => {
+    const next = [...tags]
+    let message: string | null = null
+
+    for (const raw of rawTags) {
+      const tag = resolveTag(raw, aliases)
+      if (!tag) continue
+      if (tag.length > MAX_TAG_LENGTH) {
+        message = `태그는 ${MAX_TAG_LENGTH}자까지 입력할 수 있습니다.`
+        continue
+      }
+      if (next.includes(tag)) {
+        message = `'${tag}' 태그는 이미 추가되어 있습니다.`
+        continue
+      }
+      if (next.length >= MAX_TAGS) {
+        message = `태그는 최대 ${MAX_TAGS}개까지 입력할 수 있습니다.`
+        break
+      }
+      next.push(tag)
+    }
+
+    setError(message)
+    if (next.length !== tags.length) onChange(next)
+  }
+
+  const commitInput = () => {
+    if (!input.trim()) return
+    addTags([input])
+    setInput('')
+    setActiveIndex(-1)
+  }
+
+  const selectSuggestion = (suggestion: TagSuggestion) => {
+    addTags([suggestion.tag])
+    setInput('')
+    setActiveIndex(-1)
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag))
+    setError(null)
+  }
+
+  // 쉼표가 들어오면(붙여넣기 포함) 앞부분은 태그로 추가
+  const handleInputChange = (value: string) => {
+    if (value.includes(',')) {
+      const parts = value.split(',')
+      const rest = parts.pop() ?? ''
+      addTags(splitTagInput(parts.join(',')))
+      setInput(rest.trimStart())
+    } else {
+      setInput(value)
+      setError(null)
+    }
+    setActiveIndex(-1)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return
+
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setActiveIndex((prev) => (prev + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault()
+      setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+    } else if (e.key === 'Enter') {
+      // 폼 제출 대신 태그 추가
+      e.preventDefault()
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        selectSuggestion(suggestions[activeIndex])
+      } else {
+        commitInput()
+      }
+    } else if (e.key === 'Tab' && activeIndex >= 0 && suggestions[activeIndex]) {
+      e.preventDefault()
+      selectSuggestion(suggestions[activeIndex])
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1])
+    } else if (e.key === 'Escape') {
+      setActiveIndex(-1)
+      setIsFocused(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex flex-wrap items-center gap-2 w-full px-3 py-2 border rounded-lg transition-all focus-within:ring-2 ${
+          error ? 'border-red-400 focus-within:ring-red-300' : 'border-gray-300 focus-within:ring-blue-500 focus-within:border-transparent'
+        }`}
+      >
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className={`flex items-center gap-1 pl-2.5 pr-1.5 py-1 text-sm font-medium rounded-full ${getTagColor(tag)}`}
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="p-0.5 rounded-full hover:bg-black/10 transition-colors"
+              aria-label={`${tag} 태그 삭제`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          id={id}
+          value={input}
+          onChange={(e) => handleInputChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false)
+            commitInput()
+          }}
+          className="flex-1 min-w-[8rem] py-0.5 border-none outline-none focus:ring-0"
+          placeholder={isFull ? '' : tags.length === 0 ? '예: JavaScript, React, 개발' : '태그 추가'}
+          autoComplete="off"
+        />
+      </div>
+
+      {/* 자동완성 */}
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute top-full mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-20">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.tag}>
+              <button
+                type="button"
+                // 입력창 blur보다 먼저 선택되도록 mousedown 기본 동작 막음
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-left hover:bg-blue-50 transition-colors ${
+                  activeIndex === index ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="flex items-center gap-1.5 text-gray-700">
+                  <Hash className="w-4 h-4 text-gray-400" />
+                  {suggestion.tag}
+                  {suggestion.alias && (
+                    <span className="text-xs text-gray-400">({suggestion.alias})</span>
+                  )}
+                </span>
+                {suggestion.count > 0 && (
+                  <span className="text-xs text-gray-400">{suggestion.count.toLocaleString()}개의 글</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        {error ? (
+          <p className="flex items-center gap-1 text-red-600">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </p>
+        ) : (
+          <p className="text-gray-500">Enter 또는 쉼표로 추가, 대소문자와 비슷한 태그는 자동으로 합쳐집니다.</p>
+        )}
+        <span className={isFull ? 'font-semibold text-blue-600' : 'text-gray-500'}>
+          {tags.length}/{MAX_TAGS}
+        </span>
+      </div>
+    </div>
+  )
+}
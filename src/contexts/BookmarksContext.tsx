@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { supabase } from '../lib/supabase'
+import { useAuth } from './AuthContext'
+import { BookmarksContext } from '../hooks/useBookmarks'
+
+// 북마크한 글 ID를 한 번만 불러와 카드/상세 페이지에서 함께 사용
+export const BookmarksProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth()
+  // 어느 사용자의 북마크인지 함께 저장 (로그아웃/계정 전환 시 이전 목록을 쓰지 않도록)
+  const [state, setState] = useState<{ userId: string | null; ids: Set<string> }>({
+    userId: null,
+    ids: new Set(),
+  })
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+
+    const fetchBookmarks = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('bookmarks')
+          .select('post_id')
+          .eq('user_id', user.id)
+
+        if (error) throw error
+        if (!cancelled) {
+          setState({ userId: user.id, ids: new Set((data || []).map((row) => row.post_id)) })
+        }
+      } catch (error) {
+        console.error('Error fetching bookmarks:', error)
+      }
+    }
+
+    fetchBookmarks()
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  const isCurrentUser = !!user && state.userId === user.id
+  const bookmarkedIds = isCurrentUser ? state.ids : new Set<string>()
+
+  const updateIds = (postId: string, bookmarked: boolean) => {
+    setState((prev) => {
+      const ids = new Set(prev.ids)
+      if (bookmarked) ids.add(postId)
+      else ids.delete(postId)
+      return { ...prev, ids }
+    })
+  }
+
+  const toggleBookmark = async (postId: string) => {
+    if (!user || !isCurrentUser) return null
+
+    const next = !state.ids.has(postId)
+    // 먼저 화면에 반영하고 실패하면 되돌림
+    updateIds(postId, next)
+
+    try {
+      if (next) {
+        const { error } = await supabase.from('bookmarks').insert({ user_id: user.id, post_id: postId })
+        // 다른 탭에서 이미 저장한 경우
+        if (error && error.code !== '23505') throw error
+        toast.success('북마크에 저장했습니다.')
+      } else {
+        const { error } = await supabase
+          .from('bookmarks')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('post_id', postId)
+
+        if (error) throw error
+        toast.success('북마크를 해제했습니다.')
+      }
+      return next
+    } catch (error) {
+      console.error('Error toggling bookmark:', error)
+      toast.error(next ? '북마크 저장에 실패했습니다.' : '북마크 해제에 실패했습니다.')
+      updateIds(postId, !next)
+      return null
+    }
+  }
+
+  return (
+    <BookmarksContext.Provider
+      value={{
+        bookmarkedIds,
+        loading: !!user && !isCurrentUser,
+        isBookmarked: (postId) => bookmarkedIds.has(postId),
+        toggleBookmark,
+      }}
+    >
+      {children}
+    </BookmarksContext.Provider>
+  )
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react'
+
+export interface BookmarksContextType {
+  // 북마크한 글 ID (로그인하지 않았으면 비어 있음)
+  bookmarkedIds: Set<string>
+  loading: boolean
+  isBookmarked: (postId: string) => boolean
+  // 바뀐 북마크 상태를 반환 (로그인하지 않았거나 실패하면 null)
+  toggleBookmark: (postId: string) => Promise<boolean | null>
+}
+
+export const BookmarksContext = createContext<BookmarksContextType>({
+  bookmarkedIds: new Set(),
+  loading: false,
+  isBookmarked: () => false,
+  toggleBookmark: async () => null,
+})
+
+export const useBookmarks = () => useContext(BookmarksContext)
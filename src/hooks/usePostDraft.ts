@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import {
+  fromDraftRow,
+  getDraftStorageKey,
+  isDraftEmpty,
+  loadLocalDraft,
+  removeLocalDraft,
+  saveLocalDraft,
+  toDraftValues,
+} from '../lib/draftUtils'
+import type { DraftValues, SavedDraft } from '../lib/draftUtils'
+
+export type DraftStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'error'
+
+// 서버 자동 저장 주기 (로컬스토리지는 입력할 때마다 저장)
+const AUTOSAVE_INTERVAL = 10 * 1000
+const LOCAL_SAVE_DELAY = 500
+
+interface UsePostDraftOptions {
+  userId?: string
+  postId?: string | null
+  draftId?: string | null
+  values: DraftValues
+  // 이 시점 이전에 저장된 초안은 무시 (글이 그 이후에 저장된 경우)
+  since?: string | null
+  onRestore: (values: DraftValues) => void
+}
+
+const isAfter = (a: string, b: string) => new Date(a).getTime() > new Date(b).getTime()
+
+export function usePostDraft({ userId, postId = null, draftId = null, values, since, onRestore }: UsePostDraftOptions) {
+  const [recoveredDraft, setRecoveredDraft] = useState<SavedDraft | null>(null)
+  const [ready, setReady] = useState(false)
+  const [status, setStatus] = useState<DraftStatus>('idle')
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+
+  const storageKey = getDraftStorageKey(postId)
+  const draftIdRef = useRef<string | null>(draftId)
+  const initialJsonRef = useRef(JSON.stringify(values))
+  const savedJsonRef = useRef(JSON.stringify(values))
+  const valuesRef = useRef(values)
+  const onRestoreRef = useRef(onRestore)
+  const disabledRef = useRef(false)
+
+  useEffect(() => {
+    valuesRef.current = values
+    onRestoreRef.current = onRestore
+  })
+
+  const applyDraft = useCallback((draft: SavedDraft) => {
+    if (draft.id) draftIdRef.current = draft.id
+    onRestoreRef.current(toDraftValues(draft))
+    setLastSavedAt(draft.savedAt)
+    setRecoveredDraft(null)
+    setReady(true)
+  }, [])
+
+  // 복구할 초안 확인 (서버와 로컬 중 최신 것)
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const loadDraft = async () => {
+      let serverDraft: SavedDraft | null = null
+      try {
+        let query = supabase
+          .from('post_drafts')
+          .select('*')
+          .eq('user_id', userId)
+
+        if (draftId) {
+          query = query.eq('id', draftId)
+        } else if (postId) {
+          query = query.eq('post_id', postId)
+        } else {
+          query = query.is('post_id', null)
+        }
+
+        const { data, error } = await query
+          .order('updated_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        if (error) throw error
+        if (data) serverDraft = fromDraftRow(data)
+      } catch (error) {
+        console.error('Error fetching draft:', error)
+      }
+
+      if (cancelled) return
+
+      // 초안 행이 쌓이지 않도록 이미 있는 서버 초안 행을 계속 사용
+      if (serverDraft) {
+        draftIdRef.current = serverDraft.id
+      }
+
+      const localDraft = loadLocalDraft(storageKey)
+      const candidates = [
+        serverDraft,
+        localDraft && (!draftId || localDraft.id === draftId) ? localDraft : null,
+      ].filter((draft): draft is SavedDraft =>
+        !!draft &&
+        !isDraftEmpty(draft) &&
+        (!since || isAfter(draft.savedAt, since))
+      )
+      const latest = candidates.reduce<SavedDraft | null>(
+        (acc, draft) => (!acc || isAfter(draft.savedAt, acc.savedAt) ? draft : acc),
+        null
+      )
+
+      if (!latest || JSON.stringify(toDraftValues(latest)) === initialJsonRef.current) {
+        setReady(true)
+      } else if (draftId) {
+        // 마이페이지에서 초안을 직접 연 경우 바로 불러오기
+        applyDraft(latest)
+      } else {
+        setRecoveredDraft(latest)
+      }
+    }
+
+    loadDraft()
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, postId, draftId, since, storageKey, applyDraft])
+
+  const restoreDraft = useCallback(() => {
+    if (recoveredDraft) applyDraft(recoveredDraft)
+  }, [recoveredDraft, applyDraft])
+
+  // 복구하지 않기로 한 초안은 서버에서도 삭제 (다음 방문 때 다시 묻지 않도록)
+  const dismissDraft = useCallback(async () => {
+    removeLocalDraft(storageKey)
+    setRecoveredDraft(null)
+    setReady(true)
+
+    const dismissedId = draftIdRef.current
+    if (!userId || !dismissedId) return
+    draftIdRef.current = null
+
+    try {
+      const { error } = await supabase
+        .from('post_drafts')
+        .delete()
+        .eq('id', dismissedId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error deleting draft:', error)
+    }
+  }, [userId, storageKey])
+
+  // 서버에 초안 저장
+  const saveDraft = useCallback(async () => {
+    if (!userId || disabledRef.current) return
+
+    const current = valuesRef.current
+    const json = JSON.stringify(current)
+    if (json === savedJsonRef.current) return
+
+    if (!navigator.onLine) {
+      setStatus('offline')
+      return
+    }
+
+    setStatus('saving')
+    try {
+      const savedAt = new Date().toISOString()
+      const row = {
+        user_id: userId,
+        post_id: postId,
+        title: current.title,
+        content: current.content,
+        tags: current.tags,
+        thumbnail_url: current.thumbnailUrl,
+        updated_at: savedAt,
+      }
+
+      if (draftIdRef.current) {
+        const { error } = await supabase
+          .from('post_drafts')
+          .update(row)
+          .eq('id', draftIdRef.current)
+          .eq('user_id', userId)
+
+        if (error) throw error
+      } else {
+        const { data, error } = postId
+          ? await supabase
+              .from('post_drafts')
+              .upsert(row, { onConflict: 'user_id,post_id' })
+              .select('id')
+              .single()
+          : await supabase
+              .from('post_drafts')
+              .insert(row)
+              .select('id')
+              .single()
+
+        if (error) throw error
+        draftIdRef.current = data.id
+      }
+
+      // 저장 도중 글이 발행된 경우 다시 기록하지 않음
+      if (disabledRef.current) return
+
+      savedJsonRef.current = json
+      saveLocalDraft(storageKey, { ...current, id: draftIdRef.current, postId, savedAt })
+      setLastSavedAt(savedAt)
+      setStatus('saved')
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      setStatus('error')
+    }
+  }, [userId, postId, storageKey])
+
+  // 입력할 때마다 로컬스토리지에 저장 (오프라인/탭 종료 대비)
+  useEffect(() => {
+    if (!ready || disabledRef.current) return
+    if (JSON.stringify(values) === initialJsonRef.current) return
+
+    const timer = setTimeout(() => {
+      saveLocalDraft(storageKey, {
+        ...values,
+        id: draftIdRef.current,
+        postId,
+        savedAt: new Date().toISOString(),
+      })
+    }, LOCAL_SAVE_DELAY)
+
+    return () => clearTimeout(timer)
+  }, [values, ready, storageKey, postId])
+
+  // 주기적 서버 저장 + 온라인 복귀/탭 숨김 시 즉시 저장
+  useEffect(() => {
+    if (!ready) return
+
+    const interval = setInterval(saveDraft, AUTOSAVE_INTERVAL)
+    const handleOnline = () => saveDraft()
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveDraft()
+    }
+
+    window.addEventListener('online', handleOnline)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('online', handleOnline)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [ready, saveDraft])
+
+  // 발행/저장 완료 후 초안 삭제
+  const clearDraft = useCallback(async () => {
+    disabledRef.current = true
+    removeLocalDraft(storageKey)
+    if (!userId) return
+
+    try {
+      if (draftIdRef.current) {
+        await supabase
+          .from('post_drafts')
+          .delete()
+          .eq('id', draftIdRef.current)
+          .eq('user_id', userId)
+      } else if (postId) {
+        await supabase
+          .from('post_drafts')
+          .delete()
+          .eq('post_id', postId)
+          .eq('user_id', userId)
+      }
+    } catch (error) {
+      console.error('Error deleting draft:', error)
+    }
+  }, [userId, postId, storageKey])
+
+  return {
+    recoveredDraft,
+    restoreDraft,
+    dismissDraft,
+    status,
+    lastSavedAt,
+    clearDraft,
+  }
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+
+const STORAGE_KEY = 'recentSearches'
+const MAX_RECENT_SEARCHES = 5
+// recent_searches.query 길이 제한과 같음
+const MAX_QUERY_LENGTH = 100
+
+const readLocalSearches = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(saved) ? saved.filter((item) => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+const writeLocalSearches = (searches: string[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(searches))
+}
+
+// 계정으로 옮길 검색어 (예전에 저장된 빈 값/너무 긴 값/중복은 제외)
+const toSyncableSearches = (searches: string[]) =>
+  [...new Set(searches.map((query) => query.trim()))]
+    .filter((query) => query.length > 0 && query.length <= MAX_QUERY_LENGTH)
+    .slice(0, MAX_RECENT_SEARCHES)
+
+// 최근 검색어: 로그아웃 상태는 로컬스토리지, 로그인하면 계정에 저장 (기기 간 동기화)
+export function useRecentSearches() {
+  const { user } = useAuth()
+  const [localSearches, setLocalSearches] = useState<string[]>(readLocalSearches)
+  // 어느 사용자의 목록인지 함께 저장 (계정이 바뀌면 이전 목록이 보이지 않도록)
+  const [accountSearches, setAccountSearches] = useState<{ userId: string; searches: string[] } | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    const syncSearches = async () => {
+      // 로그인 전에 검색한 기록은 계정으로 옮김 (계정에 이미 있는 검색어는 그대로)
+      // 옮기지 못해도 계정의 검색어는 불러옴
+      try {
+        const local = toSyncableSearches(readLocalSearches())
+        if (local.length > 0) {
+          const now = Date.now()
+          const { error } = await supabase.from('recent_searches').upsert(
+            local.map((query, index) => ({
+              user_id: user.id,
+              query,
+              searched_at: new Date(now - (index + 1) * 1000).toISOString(),
+            })),
+            { onConflict: 'user_id,query', ignoreDuplicates: true }
+          )
+
+          if (error) throw error
+        }
+        localStorage.removeItem(STORAGE_KEY)
+        setLocalSearches([])
+      } catch (error) {
+        console.error('Error migrating recent searches:', error)
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('recent_searches')
+          .select('query')
+          .eq('user_id', user.id)
+          .order('searched_at', { ascending: false })
+          .limit(MAX_RECENT_SEARCHES)
+
+        if (error) throw error
+        setAccountSearches({ userId: user.id, searches: (data || []).map((row) => row.query) })
+      } catch (error) {
+        console.error('Error syncing recent searches:', error)
+      }
+    }
+
+    syncSearches()
+  }, [user])
+
+  const recentSearches = user
+    ? accountSearches?.userId === user.id
+      ? accountSearches.searches
+      : []
+    : localSearches
+
+  const setSearches = (searches: string[]) => {
+    if (user) {
+      setAccountSearches({ userId: user.id, searches })
+    } else {
+      setLocalSearches(searches)
+      writeLocalSearches(searches)
+    }
+  }
+
+  const addRecentSearch = async (query: string) => {
+    const trimmed = query.trim()
+    if (!trimmed || trimmed.length > MAX_QUERY_LENGTH) return
+
+    setSearches([trimmed, ...recentSearches.filter((q) => q !== trimmed)].slice(0, MAX_RECENT_SEARCHES))
+
+    if (user) {
+      const { error } = await supabase
+        .from('recent_searches')
+        .upsert({ user_id: user.id, query: trimmed, searched_at: new Date().toISOString() })
+
+      if (error) console.error('Error saving recent search:', error)
+    }
+  }
+
+  const removeRecentSearch = async (query: string) => {
+    setSearches(recentSearches.filter((q) => q !== query))
+
+    if (user) {
+      const { error } = await supabase
+        .from('recent_searches')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('query', query)
+
+      if (error) console.error('Error removing recent search:', error)
+    }
+  }
+
+  return { recentSearches, addRecentSearch, removeRecentSearch }
+}
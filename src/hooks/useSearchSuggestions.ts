@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { escapeLikePattern } from '../lib/searchUtils'
+import { normalizeTag } from '../lib/tagUtils'
+
+export interface SearchSuggestions {
+  posts: {
+    id: string
+    title: string
+    slug: string | null
+    profiles?: {
+      username: string
+    }
+  }[]
+  authors: {
+    id: string
+    username: string
+    avatar_url: string | null
+  }[]
+  tags: {
+    tag: string
+    post_count: number
+  }[]
+}
+
+const SUGGESTION_DEBOUNCE_MS = 250
+const MAX_POST_SUGGESTIONS = 5
+const MAX_AUTHOR_SUGGESTIONS = 3
+const MAX_TAG_SUGGESTIONS = 5
+
+const emptySuggestions: SearchSuggestions = { posts: [], authors: [], tags: [] }
+
+// 입력 중인 검색어로 글 제목, 작성자, 태그 추천 (입력이 멈추면 조회)
+export function useSearchSuggestions(query: string) {
+  const keyword = query.trim()
+  // 어느 검색어의 결과인지 함께 저장 (입력이 바뀌면 이전 결과는 쓰지 않음)
+  const [result, setResult] = useState<{ keyword: string; suggestions: SearchSuggestions } | null>(null)
+
+  useEffect(() => {
+    if (!keyword) return
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const pattern = `%${escapeLikePattern(keyword)}%`
+        const tagKeyword = normalizeTag(keyword)
+
+        const [postsResult, authorsResult, tagsResult] = await Promise.all([
+          supabase
+            .rpc('search_posts', { p_query: keyword })
+            .select(`
+              id,
+              title,
+              slug,
+              profiles:user_id (username)
+            `)
+            .limit(MAX_POST_SUGGESTIONS),
+          supabase
+            .from('profiles')
+            .select('id, username, avatar_url')
+            .ilike('username', pattern)
+            .order('username')
+            .limit(MAX_AUTHOR_SUGGESTIONS),
+          tagKeyword
+            ? supabase
+                .rpc('get_tag_counts')
+                .ilike('tag', `%${escapeLikePattern(tagKeyword)}%`)
+                .limit(MAX_TAG_SUGGESTIONS)
+            : Promise.resolve({ data: [], error: null }),
+        ])
+
+        if (postsResult.error) throw postsResult.error
+        if (authorsResult.error) throw authorsResult.error
+        if (tagsResult.error) throw tagsResult.error
+
+        // 스키마 타입이 없는 rpc라 작성자가 배열로 추론되지만 실제로는 객체 하나
+        const postRows: unknown = postsResult.data
+        const posts: SearchSuggestions['posts'] = Array.isArray(postRows) ? postRows : []
+        if (!cancelled) {
+          setResult({
+            keyword,
+            suggestions: {
+              posts,
+              authors: authorsResult.data || [],
+              tags: tagsResult.data || [],
+            },
+          })
+        }
+      } catch (error) {
+        console.error('Error fetching search suggestions:', error)
+        // 실패한 검색어도 결과(빈 목록)를 남겨 로딩 표시가 계속되지 않도록
+        if (!cancelled) setResult({ keyword, suggestions: emptySuggestions })
+      }
+    }, SUGGESTION_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [keyword])
+
+  const isLoading = !!keyword && result?.keyword !== keyword
+  const suggestions = keyword && result?.keyword === keyword ? result.suggestions : emptySuggestions
+
+  return { suggestions, isLoading }
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { NOTIFICATIONS_CHANGED_EVENT } from '../lib/notificationUtils'
+
+// 읽지 않은 알림 수 (새 알림은 실시간으로 반영)
+export function useUnreadNotifications(): number {
+  const { user } = useAuth()
+  // 어느 사용자의 값인지 함께 저장 (로그아웃 후 이전 값이 보이지 않도록)
+  const [unread, setUnread] = useState<{ userId: string | null; count: number }>({ userId: null, count: 0 })
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+
+    const fetchUnreadCount = async () => {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('is_read', false)
+
+      if (error) {
+        console.error('Error fetching unread notifications:', error)
+        return
+      }
+      if (!cancelled) setUnread({ userId: user.id, count: count || 0 })
+    }
+
+    fetchUnreadCount()
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => fetchUnreadCount()
+      )
+      .subscribe()
+
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, fetchUnreadCount)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, fetchUnreadCount)
+      supabase.removeChannel(channel)
+    }
+  }, [user])
+
+  return user && unread.userId === user.id ? unread.count : 0
+}
@@ -0,0 +1,18 @@
+import { toast } from 'sonner'
+
+// 텍스트를 클립보드에 복사하고 결과를 토스트로 알림
+export async function copyToClipboard(
+  text: string,
+  successMessage = '링크가 클립보드에 복사되었습니다!',
+  errorMessage = '링크 복사에 실패했습니다.'
+): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text)
+    toast.success(successMessage)
+    return true
+  } catch (error) {
+    console.error('Error copying to clipboard:', error)
+    toast.error(errorMessage)
+    return false
+  }
+}
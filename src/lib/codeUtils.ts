@@ -0,0 +1,153 @@
+import { common, createLowlight } from 'lowlight'
+import type { Element, Root, RootContent } from 'hast'
+import type { Code, Root as MdastRoot, RootContent as MdastContent } from 'mdast'
+import { getNodeText } from './headingUtils'
+
+// 자주 쓰는 언어(TS/JS/Python/SQL/shell/JSON 등) 문법 강조
+const lowlight = createLowlight(common)
+
+// 언어 표시 이름
+const languageLabels: Record<string, string> = {
+  typescript: 'TypeScript',
+  ts: 'TypeScript',
+  tsx: 'TSX',
+  javascript: 'JavaScript',
+  js: 'JavaScript',
+  jsx: 'JSX',
+  python: 'Python',
+  py: 'Python',
+  sql: 'SQL',
+  bash: 'Shell',
+  sh: 'Shell',
+  zsh: 'Shell',
+  shell: 'Shell',
+  console: 'Shell',
+  json: 'JSON',
+  xml: 'HTML',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  yaml: 'YAML',
+  yml: 'YAML',
+  markdown: 'Markdown',
+  java: 'Java',
+  kotlin: 'Kotlin',
+  go: 'Go',
+  rust: 'Rust',
+  diff: 'Diff',
+  plaintext: 'Text',
+}
+
+// 강조된 코드 조각 (className은 hljs 토큰 클래스)
+export interface CodeToken {
+  text: string
+  className: string
+}
+
+export interface HighlightedCode {
+  language: string | null
+  lines: CodeToken[][]
+}
+
+// hast 트리를 줄 단위 토큰 목록으로 변환 (여러 줄에 걸친 토큰도 줄마다 나눔)
+function toLines(tree: Root): CodeToken[][] {
+  const lines: CodeToken[][] = [[]]
+
+  const visit = (node: RootContent, classNames: string[]) => {
+    if (node.type === 'text') {
+      node.value.split('\n').forEach((text, index) => {
+        if (index > 0) lines.push([])
+        if (text) lines[lines.length - 1].push({ text, className: classNames.join(' ') })
+      })
+    } else if (node.type === 'element') {
+      const className = (node as Element).properties.className
+      const next = Array.isArray(className) ? [...classNames, ...className.map(String)] : classNames
+      node.children.forEach((child) => visit(child, next))
+    }
+  }
+
+  tree.children.forEach((child) => visit(child, []))
+
+  // 마지막 줄바꿈으로 생긴 빈 줄 제거
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop()
+  return lines
+}
+
+// 언어가 지정되지 않았거나 모르는 언어면 자동 감지
+export function highlightCode(code: string, language?: string | null): HighlightedCode {
+  try {
+    if (language && lowlight.registered(language)) {
+      return { language, lines: toLines(lowlight.highlight(language, code)) }
+    }
+
+    if (!language) {
+      const tree = lowlight.highlightAuto(code)
+      const detected = tree.data?.language
+      if (detected && (tree.data?.relevance ?? 0) > 2) {
+        return { language: detected, lines: toLines(tree) }
+      }
+    }
+  } catch (error) {
+    console.error('Error highlighting code:', error)
+  }
+
+  return {
+    language: language || null,
+    lines: code.replace(/\n$/, '').split('\n').map((text) => (text ? [{ text, className: '' }] : [])),
+  }
+}
+
+export function getLanguageLabel(language: string | null): string {
+  if (!language) return 'Code'
+  return languageLabels[language] ?? language.toUpperCase()
+}
+
+// <pre><code class="language-ts" data-meta="{3-5}"> 요소에서 코드 블록 정보 추출
+export function getCodeBlockInfo(code: Element) {
+  const className = code.properties.className
+  const languageClass = Array.isArray(className)
+    ? className.map(String).find((name) => name.startsWith('language-'))
+    : undefined
+  const meta = code.properties.dataMeta
+
+  return {
+    code: getNodeText(code),
+    language: languageClass ? languageClass.slice('language-'.length) : null,
+    meta: typeof meta === 'string' ? meta : null,
+  }
+}
+
+// 코드 블록 메타 ```ts {3-5,8} → 강조할 줄 번호 집합
+export function parseHighlightLines(meta?: string | null): Set<number> {
+  const lines = new Set<number>()
+  const match = meta?.match(/\{([\d,\s-]+)\}/)
+  if (!match) return lines
+
+  for (const part of match[1].split(',')) {
+    const [start, end] = part.trim().split('-').map(Number)
+    if (!start) continue
+    for (let line = start; line <= (end || start) && line - start < 1000; line++) {
+      lines.add(line)
+    }
+  }
+
+  return lines
+}
+
+// remark 플러그인: 코드 블록 메타(```ts {3-5})를 data-meta 속성으로 전달
+export function remarkCodeMeta() {
+  return (tree: MdastRoot) => {
+    const visit = (node: MdastRoot | MdastContent) => {
+      if (node.type === 'code') {
+        const code = node as Code
+        if (code.meta) {
+          code.data = { ...code.data, hProperties: { ...code.data?.hProperties, dataMeta: code.meta } }
+        }
+        return
+      }
+      if ('children' in node) node.children.forEach(visit)
+    }
+
+    visit(tree)
+  }
+}
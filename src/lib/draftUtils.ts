@@ -0,0 +1,77 @@
+// 임시저장 대상 값
+export interface DraftValues {
+  title: string
+  content: string
+  tags: string[]
+  thumbnailUrl: string | null
+}
+
+// 저장된 초안 (서버 또는 로컬스토리지)
+export interface SavedDraft extends DraftValues {
+  id: string | null
+  postId: string | null
+  savedAt: string
+}
+
+// post_drafts 테이블 행
+export interface DraftRow {
+  id: string
+  post_id: string | null
+  title: string
+  content: string
+  tags: string[] | null
+  thumbnail_url: string | null
+  updated_at: string
+}
+
+// 새 글은 하나의 키, 수정 중인 글은 글 ID별 키 사용
+export const getDraftStorageKey = (postId?: string | null) =>
+  postId ? `postDraft:edit:${postId}` : 'postDraft:new'
+
+export function fromDraftRow(row: DraftRow): SavedDraft {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    title: row.title,
+    content: row.content,
+    tags: row.tags || [],
+    thumbnailUrl: row.thumbnail_url,
+    savedAt: row.updated_at,
+  }
+}
+
+export function toDraftValues(draft: DraftValues): DraftValues {
+  return {
+    title: draft.title,
+    content: draft.content,
+    tags: draft.tags,
+    thumbnailUrl: draft.thumbnailUrl,
+  }
+}
+
+export function isDraftEmpty(draft: DraftValues): boolean {
+  return !draft.title.trim() && !draft.content.trim() && draft.tags.length === 0 && !draft.thumbnailUrl
+}
+
+export function loadLocalDraft(key: string): SavedDraft | null {
+  try {
+    const saved = localStorage.getItem(key)
+    return saved ? (JSON.parse(saved) as SavedDraft) : null
+  } catch (error) {
+    console.error('Error reading local draft:', error)
+    return null
+  }
+}
+
+export function saveLocalDraft(key: string, draft: SavedDraft) {
+  try {
+    localStorage.setItem(key, JSON.stringify(draft))
+  } catch (error) {
+    // 저장 공간 부족 등은 무시 (서버 저장이 우선)
+    console.error('Error saving local draft:', error)
+  }
+}
+
+export function removeLocalDraft(key: string) {
+  localStorage.removeItem(key)
+}
@@ -0,0 +1,125 @@
+// 에디터 텍스트 편집 결과 (변경된 값과 새 선택 영역)
+export interface EditResult {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+// 선택 영역을 앞뒤 문자열로 감싸기 (예: **굵게**)
+// 선택된 텍스트가 없으면 placeholder를 넣고 placeholder를 선택 상태로 만든다
+export function wrapSelection(
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string = before,
+  placeholder = ''
+): EditResult {
+  const selected = value.slice(start, end)
+
+  // 이미 감싸져 있으면 감싸기 해제
+  if (
+    selected &&
+    value.slice(start - before.length, start) === before &&
+    value.slice(end, end + after.length) === after
+  ) {
+    return {
+      value: value.slice(0, start - before.length) + selected + value.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    }
+  }
+
+  const inner = selected || placeholder
+  return {
+    value: value.slice(0, start) + before + inner + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  }
+}
+
+// 선택 영역이 걸친 모든 줄 앞에 접두사 추가 (예: "## ", "> ")
+// 모든 줄에 이미 접두사가 있으면 제거한다
+export function toggleLinePrefix(value: string, start: number, end: number, prefix: string): EditResult {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1
+  const nextBreak = value.indexOf('\n', end)
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak
+  const lines = value.slice(lineStart, lineEnd).split('\n')
+
+  const hasPrefix = lines.every((line) => line.startsWith(prefix))
+  const updatedLines = hasPrefix
+    ? lines.map((line) => line.slice(prefix.length))
+    : lines.map((line) => prefix + line.replace(/^(#{1,6}\s|>\s)/, ''))
+  const updated = updatedLines.join('\n')
+
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length,
+  }
+}
+
+// 커서 위치에 텍스트 삽입 (선택 영역은 대체)
+export function insertText(value: string, start: number, end: number, text: string): EditResult {
+  const cursor = start + text.length
+  return {
+    value: value.slice(0, start) + text + value.slice(end),
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  }
+}
+
+// 링크 삽입: 선택된 텍스트를 링크 텍스트로 사용하고 URL 부분을 선택
+export function insertLink(value: string, start: number, end: number): EditResult {
+  const text = value.slice(start, end) || '링크 텍스트'
+  const url = 'https://'
+  const markdown = `[${text}](${url})`
+  const urlStart = start + text.length + 3
+
+  return {
+    value: value.slice(0, start) + markdown + value.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  }
+}
+
+// 코드 삽입: 여러 줄이면 코드 블록, 한 줄이면 인라인 코드
+export function insertCode(value: string, start: number, end: number): EditResult {
+  const selected = value.slice(start, end)
+  if (selected.includes('\n')) {
+    const needsLeadingBreak = start > 0 && value[start - 1] !== '\n'
+    const before = (needsLeadingBreak ? '\n' : '') + '```\n'
+    return wrapSelection(value, start, end, before, '\n```')
+  }
+  return wrapSelection(value, start, end, '`', '`', '코드')
+}
+
+// 파일명 → 이미지 대체 텍스트 (확장자와 대괄호 제거)
+export function toImageAlt(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '').trim() || '이미지'
+}
+
+const UPLOAD_PLACEHOLDER_PREFIX = 'uploading-'
+
+// 이미지 업로드 중 자리 표시 (업로드가 끝나면 replacePlaceholder로 실제 이미지로 교체)
+export function createImagePlaceholder(fileName: string): string {
+  const id = Math.random().toString(36).slice(2, 10)
+  return `![업로드 중... ${toImageAlt(fileName)}](${UPLOAD_PLACEHOLDER_PREFIX}${id})`
+}
+
+// 이미지 주소가 업로드 중 자리 표시인지 (미리보기에서 깨진 이미지 대신 로딩 표시)
+export function isUploadPlaceholderSrc(src: string | undefined): boolean {
+  return !!src && src.startsWith(UPLOAD_PLACEHOLDER_PREFIX)
+}
+
+// 자리 표시를 다른 텍스트로 교체 (이미 지워졌으면 그대로)
+export function replacePlaceholder(value: string, placeholder: string, replacement: string): string {
+  const index = value.indexOf(placeholder)
+  if (index === -1) return value
+  return value.slice(0, index) + replacement + value.slice(index + placeholder.length)
+}
+
+// 아직 업로드 중인 이미지 자리 표시가 남아 있는지
+export function hasPendingUploads(value: string): boolean {
+  return /!\[[^\]]*\]\(uploading-[a-z0-9]+\)/.test(value)
+}
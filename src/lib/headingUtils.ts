@@ -0,0 +1,92 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+import rehypeSanitize from 'rehype-sanitize'
+import type { Element, Root, RootContent } from 'hast'
+
+// 본문 제목 (목차 항목)
+export interface Heading {
+  id: string
+  text: string
+  level: number
+}
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+
+// 제목 ID 접두사 (본문 제목이 페이지의 다른 ID, 예: 댓글 고유 주소 comment-<id>와 겹치지 않도록)
+const HEADING_ID_PREFIX = 'h-'
+
+// 제목 → 앵커 ID (한글 등 유니코드 문자는 그대로 유지)
+export function slugifyHeading(text: string): string {
+  const slug = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '') // 문장부호/기호 제거
+    .replace(/\s+/g, '-') // 공백을 하이픈으로
+  return slug || 'section'
+}
+
+// 같은 제목이 여러 번 나오면 -1, -2 ... 를 붙여 고유하게 만듦
+function createSlugger() {
+  const used = new Set<string>()
+  return (text: string) => {
+    const base = slugifyHeading(text)
+    let slug = base
+    for (let i = 1; used.has(slug); i++) {
+      slug = `${base}-${i}`
+    }
+    used.add(slug)
+    return slug
+  }
+}
+
+// 요소 안의 텍스트만 이어 붙임
+export function getNodeText(node: RootContent): string {
+  if (node.type === 'text') return node.value
+  if (node.type === 'element') return node.children.map(getNodeText).join('')
+  return ''
+}
+
+// 트리의 제목 요소에 ID를 붙이고 목록으로 반환
+function assignHeadingIds(tree: Root): Heading[] {
+  const slug = createSlugger()
+  const headings: Heading[] = []
+
+  const visit = (node: Root | Element) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue
+
+      if (HEADING_TAGS.includes(child.tagName)) {
+        const text = getNodeText(child).trim()
+        const id = `${HEADING_ID_PREFIX}${slug(text)}`
+        child.properties = { ...child.properties, id }
+        headings.push({ id, text, level: Number(child.tagName.charAt(1)) })
+      } else {
+        visit(child)
+      }
+    }
+  }
+
+  visit(tree)
+  return headings
+}
+
+// rehype 플러그인: sanitize 이후에 실행해야 ID에 user-content- 접두사가 붙지 않음
+export function rehypeHeadingIds() {
+  return (tree: Root) => {
+    assignHeadingIds(tree)
+  }
+}
+
+// MarkdownRenderer와 같은 파이프라인으로 변환해 렌더링된 ID와 항상 일치
+export function extractHeadings(markdown: string): Heading[] {
+  const processor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype, { allowDangerousHtml: true })
+    .use(rehypeSanitize)
+
+  const tree = processor.runSync(processor.parse(markdown)) as Root
+  return assignHeadingIds(tree)
+}
@@ -1,3 +1,5 @@
+import { supabase } from './supabase'
+
 // 이미지 파일 타입 검증
 export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
 export const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
@@ -88,3 +90,44 @@ export async function resizeImage(file: File, maxWidth = MAX_IMAGE_WIDTH, maxHei
     reader.readAsDataURL(file)
   })
 }
+
+// 이미지를 리사이징한 뒤 post-images 버킷에 업로드하고 공개 URL 반환 (검증은 validateImageFile로 먼저)
+// folder: 'thumbnails'(대표 이미지) 또는 'content'(본문 이미지)
+export async function uploadPostImage(
+  file: File,
+  userId: string,
+  folder: string,
+  onProgress?: (progress: number) => void
+): Promise<string> {
+  // 이미지 리사이징
+  onProgress?.(30)
+  const resizedBlob = await resizeImage(file)
+
+  // 파일명 생성 (고유한 파일명)
+  const fileExt = file.name.split('.').pop() || file.type.split('/')[1]
+  const fileName = `${userId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`
+  const filePath = `${folder}/${fileName}`
+
+  onProgress?.(60)
+
+  // Supabase Storage에 업로드
+  const { error: uploadError } = await supabase.storage
+    .from('post-images')
+    .upload(filePath, resizedBlob, {
+      contentType: file.type,
+      cacheControl: '3600',
+      upsert: false,
+    })
+
+  if (uploadError) throw uploadError
+
+  onProgress?.(90)
+
+  // Public URL 가져오기
+  const { data } = supabase.storage
+    .from('post-images')
+    .getPublicUrl(filePath)
+
+  onProgress?.(100)
+  return data.publicUrl
+}
@@ -0,0 +1,27 @@
+// 마크다운 문법을 제거하고 순수 텍스트만 반환 (카드 미리보기 등에 사용)
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1') // 코드 블록은 내용만 남김
+    .replace(/`([^`]+)`/g, '$1') // 인라인 코드
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // 이미지는 대체 텍스트만
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // 링크는 텍스트만
+    .replace(/<[^>]+>/g, '') // HTML 태그
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '') // 제목
+    .replace(/^\s{0,3}>\s?/gm, '') // 인용문
+    .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/gm, '') // 체크리스트
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, '') // 목록
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '') // 구분선
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, '') // 표 구분행
+    .replace(/\|/g, ' ') // 표 셀 구분자
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // 굵게
+    .replace(/(\*|_)(.+?)\1/g, '$2') // 기울임
+    .replace(/~~(.+?)~~/g, '$1') // 취소선
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// 마크다운 본문으로 미리보기 텍스트 생성 (기본 100자)
+export function getMarkdownPreview(markdown: string, maxLength = 100): string {
+  const text = stripMarkdown(markdown)
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
+}
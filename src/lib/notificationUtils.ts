@@ -0,0 +1,33 @@
+export type NotificationType = 'post_like' | 'post_comment' | 'comment_reply' | 'comment_like' | 'follow'
+
+// 알림 설정 화면에 표시할 종류별 이름/설명
+export const notificationTypeLabels: Record<NotificationType, { label: string; description: string }> = {
+  post_like: { label: '글 좋아요', description: '내 글에 좋아요가 눌렸을 때' },
+  post_comment: { label: '새 댓글', description: '내 글에 댓글이 달렸을 때' },
+  comment_reply: { label: '답글', description: '내 댓글에 답글이 달렸을 때' },
+  comment_like: { label: '댓글 좋아요', description: '내 댓글에 좋아요가 눌렸을 때' },
+  follow: { label: '새 팔로워', description: '누군가 나를 팔로우했을 때' },
+}
+
+// 알림 문구 (작성자 이름 뒤에 붙음)
+export function getNotificationMessage(type: NotificationType): string {
+  switch (type) {
+    case 'post_like':
+      return '님이 회원님의 글을 좋아합니다.'
+    case 'post_comment':
+      return '님이 회원님의 글에 댓글을 남겼습니다.'
+    case 'comment_reply':
+      return '님이 회원님의 댓글에 답글을 남겼습니다.'
+    case 'comment_like':
+      return '님이 회원님의 댓글을 좋아합니다.'
+    case 'follow':
+      return '님이 회원님을 팔로우하기 시작했습니다.'
+  }
+}
+
+// 알림을 읽음 처리/삭제했을 때 Navbar 배지를 바로 갱신하기 위한 이벤트
+export const NOTIFICATIONS_CHANGED_EVENT = 'notifications-changed'
+
+export function notifyNotificationsChanged() {
+  window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT))
+}
@@ -0,0 +1,161 @@
+import { normalizeTag } from './tagUtils'
+
+export type SearchSort = 'relevance' | 'latest' | 'likes' | 'views'
+
+// 검색 조건 (URL 쿼리스트링과 1:1로 대응)
+export interface SearchFilterState {
+  query: string
+  tags: string[]
+  author: string
+  from: string
+  to: string
+  hasThumbnail: boolean
+  sort: SearchSort
+}
+
+export const searchSortLabels: Record<SearchSort, string> = {
+  relevance: '관련도순',
+  latest: '최신순',
+  likes: '좋아요순',
+  views: '조회수순',
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const parseDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : '')
+
+// 검색어가 있으면 관련도순, 없으면 최신순이 기본
+const getDefaultSort = (query: string): SearchSort => (query ? 'relevance' : 'latest')
+
+// URL → 검색 조건 (형식이 맞지 않는 값은 무시)
+export function parseSearchFilters(params: URLSearchParams): SearchFilterState {
+  const query = (params.get('q') || '').trim()
+  const sort = params.get('sort') as SearchSort
+
+  return {
+    query,
+    tags: Array.from(new Set(params.getAll('tag').map(normalizeTag).filter(Boolean))),
+    author: (params.get('author') || '').trim().replace(/^@/, ''),
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    hasThumbnail: params.get('thumbnail') === '1',
+    sort: (Object.keys(searchSortLabels) as SearchSort[]).includes(sort) ? sort : getDefaultSort(query),
+  }
+}
+
+// 검색 조건 → URL (기본값은 생략해 주소를 짧게 유지, 페이지는 처음으로)
+export function buildSearchParams(filters: SearchFilterState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.query) params.set('q', filters.query)
+  filters.tags.forEach((tag) => params.append('tag', tag))
+  if (filters.author) params.set('author', filters.author)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.hasThumbnail) params.set('thumbnail', '1')
+  if (filters.sort !== getDefaultSort(filters.query)) params.set('sort', filters.sort)
+  return params
+}
+
+// 검색어 외에 걸려 있는 필터가 있는지
+export function hasActiveFilters(filters: SearchFilterState): boolean {
+  return filters.tags.length > 0 || !!filters.author || !!filters.from || !!filters.to || filters.hasThumbnail
+}
+
+// LIKE/ILIKE 패턴의 특수문자(\ % _)를 글자 그대로 찾도록 이스케이프
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+// 검색어가 일치하는 본문 구간
+export interface MatchRange {
+  start: number
+  end: number
+}
+
+const HANGUL_SYLLABLE_START = 0xac00
+const HANGUL_SYLLABLE_END = 0xd7a3
+const JONGSEONG_COUNT = 28
+const JUNGSEONG_COUNT = 21
+
+// 초성 순서대로의 호환용 자모 (ㄱ, ㄲ, ㄴ, ...)
+const CHOSEONG_LIST = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'
+
+const getSyllableIndex = (char: string) => {
+  const code = char.charCodeAt(0)
+  return code >= HANGUL_SYLLABLE_START && code <= HANGUL_SYLLABLE_END ? code - HANGUL_SYLLABLE_START : -1
+}
+
+// 검색어 한 글자와 본문 한 글자 비교
+// - 대소문자 무시
+// - 자음만 입력하면 초성으로 비교 (ㅎㄱ → 한글)
+// - 마지막 글자는 받침 입력 전이어도 일치 (한그 → 한글)
+const charMatches = (queryChar: string, textChar: string, isLast: boolean) => {
+  if (queryChar === textChar.toLowerCase()) return true
+
+  const textIndex = getSyllableIndex(textChar)
+  if (textIndex < 0) return false
+
+  const choseong = CHOSEONG_LIST.indexOf(queryChar)
+  if (choseong >= 0) {
+    return Math.floor(textIndex / (JUNGSEONG_COUNT * JONGSEONG_COUNT)) === choseong
+  }
+
+  const queryIndex = getSyllableIndex(queryChar)
+  if (!isLast || queryIndex < 0 || queryIndex % JONGSEONG_COUNT !== 0) return false
+  return Math.floor(textIndex / JONGSEONG_COUNT) === queryIndex / JONGSEONG_COUNT
+}
+
+// 검색어 → 하이라이트할 단어 목록 (공백으로 나누고 중복 제거, 긴 단어 우선)
+export function getSearchTerms(query: string): string[] {
+  const terms = query.normalize('NFC').toLowerCase().split(/\s+/).filter(Boolean)
+  return Array.from(new Set(terms)).sort((a, b) => b.length - a.length)
+}
+
+// 본문에서 검색어가 나오는 구간 (정규식을 쓰지 않으므로 특수문자도 글자 그대로 비교)
+export function findMatchRanges(text: string, terms: string[]): MatchRange[] {
+  const ranges: MatchRange[] = []
+
+  for (const term of terms) {
+    for (let start = 0; start + term.length <= text.length; start++) {
+      let matched = true
+      for (let i = 0; i < term.length; i++) {
+        if (!charMatches(term[i], text[start + i], i === term.length - 1)) {
+          matched = false
+          break
+        }
+      }
+      if (matched) ranges.push({ start, end: start + term.length })
+    }
+  }
+
+  // 겹치거나 맞닿은 구간은 하나로 합침
+  ranges.sort((a, b) => a.start - b.start)
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+    return merged
+  }, [])
+}
+
+const SNIPPET_CONTEXT_BEFORE = 40
+
+// 긴 본문은 처음 나온 검색어 주변만 잘라서 보여줌 (없으면 앞부분)
+export function getMatchSnippet(text: string, terms: string[], maxLength = 200): string {
+  if (text.length <= maxLength) return text
+
+  const firstMatch = findMatchRanges(text, terms)[0]
+  let start = 0
+  if (firstMatch && firstMatch.end > maxLength - SNIPPET_CONTEXT_BEFORE) {
+    start = Math.min(Math.max(0, firstMatch.start - SNIPPET_CONTEXT_BEFORE), text.length - maxLength)
+    // 단어 중간에서 시작하지 않도록 다음 공백까지 이동 (검색어를 넘지 않는 범위에서)
+    const space = text.indexOf(' ', start)
+    if (space >= 0 && space < firstMatch.start) start = space + 1
+  }
+
+  const end = Math.min(text.length, start + maxLength)
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`
+}
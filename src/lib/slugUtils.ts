@@ -0,0 +1,28 @@
+// 입력한 주소를 URL 친화적인 slug로 정리 (한글 유지)
+export function normalizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s가-힣-]/g, '') // 특수문자 제거
+    .replace(/[\s_]+/g, '-') // 공백을 하이픈으로
+    .replace(/-+/g, '-') // 연속된 하이픈 제거
+    .substring(0, 80) // 최대 80자
+}
+
+// 제목을 URL 친화적인 slug로 변환 (앞뒤 하이픈 제거)
+export function generateSlug(title: string): string {
+  return normalizeSlug(title).replace(/^-+|-+$/g, '')
+}
+
+// 글의 대표 주소: /@작성자/slug (slug가 없는 예전 글은 /post/:id)
+export function getPostPath(post: { id: string; slug?: string | null }, username?: string | null): string {
+  if (post.slug && username) {
+    return `/@${encodeURIComponent(username)}/${encodeURIComponent(post.slug)}`
+  }
+  return `/post/${post.id}`
+}
+
+// 작성자 공개 프로필 주소: /@작성자
+export function getAuthorPath(username: string): string {
+  return `/@${encodeURIComponent(username)}`
+}
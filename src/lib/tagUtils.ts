@@ -0,0 +1,54 @@
+// 태그 색상 배열
+const tagColors = [
+  'bg-blue-100 text-blue-700',
+  'bg-purple-100 text-purple-700',
+  'bg-green-100 text-green-700',
+  'bg-yellow-100 text-yellow-700',
+  'bg-pink-100 text-pink-700',
+  'bg-indigo-100 text-indigo-700',
+  'bg-red-100 text-red-700',
+  'bg-teal-100 text-teal-700',
+]
+
+// 태그별 색상 선택 (같은 태그는 어디서나 같은 색)
+export function getTagColor(tag: string): string {
+  const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)
+  return tagColors[hash % tagColors.length]
+}
+
+// 태그 페이지 주소: /tags/:tag
+export function getTagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(tag)}`
+}
+
+// 글 하나에 붙일 수 있는 태그 수 / 태그 길이
+export const MAX_TAGS = 5
+export const MAX_TAG_LENGTH = 30
+
+// 별칭 → 대표 태그 (tag_aliases 테이블)
+export type TagAliases = Record<string, string>
+
+// 태그 정규화: 앞의 # 제거, 앞뒤 공백 제거, 연속 공백 하나로, 소문자 (DB normalize_tag와 같은 규칙)
+export function normalizeTag(tag: string): string {
+  return tag
+    .normalize('NFC')
+    .trim()
+    .replace(/^#+/, '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+}
+
+// 정규화 후 별칭이면 대표 태그로 바꿈
+export function resolveTag(tag: string, aliases: TagAliases = {}): string {
+  const normalized = normalizeTag(tag)
+  return aliases[normalized] ?? normalized
+}
+
+// 쉼표로 구분된 입력(붙여넣기 등) → 태그 목록
+export function splitTagInput(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0)
+}
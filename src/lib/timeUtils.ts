@@ -36,3 +36,33 @@ export function getRelativeTimeString(date: string | Date): string {
   const diffInYears = Math.floor(diffInDays / 365)
   return `${diffInYears}년 전`
 }
+
+// 남은 시간 표시 (예: "2일 3시간 남음", "5분 12초 남음")
+export function getCountdownString(date: string | Date, now: Date = new Date()): string {
+  const targetDate = typeof date === 'string' ? new Date(date) : date
+  const diffInSeconds = Math.floor((targetDate.getTime() - now.getTime()) / 1000)
+
+  if (diffInSeconds <= 0) {
+    return '곧 발행'
+  }
+
+  const days = Math.floor(diffInSeconds / 86400)
+  const hours = Math.floor((diffInSeconds % 86400) / 3600)
+  const minutes = Math.floor((diffInSeconds % 3600) / 60)
+  const seconds = diffInSeconds % 60
+
+  if (days > 0) {
+    return `${days}일 ${hours}시간 남음`
+  }
+  if (hours > 0) {
+    return `${hours}시간 ${minutes}분 남음`
+  }
+  return `${minutes}분 ${seconds}초 남음`
+}
+
+// Date → datetime-local 입력값 (로컬 시간 기준 "YYYY-MM-DDTHH:mm")
+export function toDateTimeLocalValue(date: string | Date): string {
+  const targetDate = typeof date === 'string' ? new Date(date) : date
+  const offset = targetDate.getTimezoneOffset() * 60000
+  return new Date(targetDate.getTime() - offset).toISOString().slice(0, 16)
+}
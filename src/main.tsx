@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import { Toaster } from 'sonner'
 import { AuthProvider } from './contexts/AuthContext'
+import { BookmarksProvider } from './contexts/BookmarksContext'
 import './index.css'
 import App from './App.tsx'
 
@@ -10,13 +11,15 @@ createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <AuthProvider>
-        <App />
-        <Toaster 
-          position="top-center" 
-          richColors 
-          closeButton
-          duration={3000}
-        />
+        <BookmarksProvider>
+          <App />
+          <Toaster 
+            position="top-center" 
+            richColors 
+            closeButton
+            duration={3000}
+          />
+        </BookmarksProvider>
       </AuthProvider>
     </BrowserRouter>
   </StrictMode>,
@@ -0,0 +1,407 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { ArrowUpDown, Calendar, Eye, FileText, Heart, ListChecks, Mail, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import PostCard from '../components/PostCard'
+import Pagination from '../components/Pagination'
+import FollowStats from '../components/FollowStats'
+
+interface AuthorProfile {
+  id: string
+  username: string
+  avatar_url: string | null
+  bio: string | null
+  email_public: boolean | null
+  created_at: string
+}
+
+interface Post {
+  id: string
+  title: string
+  content: string
+  tags: string[] | null
+  slug: string | null
+  created_at: string
+  thumbnail_url: string | null
+  views_count: number | null
+  likes_count: number
+  comments_count: number
+}
+
+interface AuthorStats {
+  posts_count: number
+  likes_count: number
+  views_count: number
+}
+
+interface TagCount {
+  tag: string
+  post_count: number
+}
+
+interface PublicReadingList {
+  id: string
+  name: string
+  reading_list_items: { count: number }[]
+}
+
+type SortOption = 'latest' | 'popular' | 'views'
+
+const POSTS_PER_PAGE = 12
+
+const sortLabels: Record<SortOption, string> = {
+  latest: '최신순',
+  popular: '인기순',
+  views: '조회순',
+}
+
+// 작성자의 공개 글 한 페이지 (정렬과 태그 필터는 서버에서)
+const fetchAuthorPosts = async (authorId: string, sort: SortOption, tag: string | null, page: number) => {
+  const from = (page - 1) * POSTS_PER_PAGE
+  const to = from + POSTS_PER_PAGE - 1
+
+  // 인기순은 홈 화면과 같은 인기 점수, 나머지는 컬럼 정렬
+  if (sort === 'popular') {
+    const { data, error, count } = await supabase
+      .rpc('get_popular_posts', { p_author_ids: [authorId], p_tag: tag }, { count: 'exact' })
+      .select('*')
+      .range(from, to)
+    if (error) throw error
+    const posts: Post[] = data || []
+    return { posts, count: count || 0 }
+  }
+
+  let query = supabase
+    .from('posts')
+    .select('*', { count: 'exact' })
+    .eq('user_id', authorId)
+    .eq('is_public', true)
+  if (tag) query = query.contains('tags', [tag])
+  if (sort === 'views') query = query.order('views_count', { ascending: false, nullsFirst: false })
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, to)
+  if (error) throw error
+  const posts: Post[] = data || []
+  return { posts, count: count || 0 }
+}
+
+export default function AuthorPage() {
+  const { handle } = useParams<{ handle: string }>()
+  const username = handle?.startsWith('@') ? handle.slice(1) : null
+  const [author, setAuthor] = useState<AuthorProfile | null>(null)
+  const [email, setEmail] = useState<string | null>(null)
+  const [stats, setStats] = useState<AuthorStats>({ posts_count: 0, likes_count: 0, views_count: 0 })
+  const [tagCloud, setTagCloud] = useState<TagCount[]>([])
+  const [posts, setPosts] = useState<Post[]>([])
+  const [postsCount, setPostsCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [postsLoading, setPostsLoading] = useState(true)
+  const [sortBy, setSortBy] = useState<SortOption>('latest')
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [readingLists, setReadingLists] = useState<PublicReadingList[]>([])
+  const authorId = author?.id
+
+  useEffect(() => {
+    const fetchAuthor = async () => {
+      setLoading(true)
+      try {
+        if (!username) {
+          setAuthor(null)
+          return
+        }
+
+        // 이메일은 공개 여부와 상관없이 받지 않고, 공개한 경우에만 따로 조회
+        const { data: profileData, error: profileError } = await supabase
+          .from('profiles')
+          .select('id, username, avatar_url, bio, email_public, created_at')
+          .eq('username', username)
+          .maybeSingle()
+
+        if (profileError) throw profileError
+        setAuthor(profileData)
+        if (!profileData) return
+
+        // 통계와 태그 구름은 데이터베이스에서 계산 + 공개 읽기 목록
+        const [statsResult, tagsResult, listsResult, emailResult] = await Promise.all([
+          supabase.rpc('get_author_stats', { p_user_id: profileData.id }),
+          supabase.rpc('get_author_tag_counts', { p_user_id: profileData.id }),
+          supabase
+            .from('reading_lists')
+            .select(`
+              *,
+              reading_list_items (count)
+            `)
+            .eq('user_id', profileData.id)
+            .eq('is_public', true)
+            .order('updated_at', { ascending: false }),
+          profileData.email_public
+            ? supabase.rpc('get_public_email', { p_user_id: profileData.id })
+            : Promise.resolve({ data: null, error: null }),
+        ])
+
+        if (statsResult.error) throw statsResult.error
+        if (tagsResult.error) throw tagsResult.error
+        if (listsResult.error) throw listsResult.error
+        if (emailResult.error) throw emailResult.error
+
+        const statsData: AuthorStats[] = statsResult.data || []
+        const tagsData: TagCount[] = tagsResult.data || []
+        if (statsData[0]) setStats(statsData[0])
+        setTagCloud(tagsData)
+        setReadingLists(listsResult.data || [])
+        setEmail(emailResult.data)
+      } catch (error) {
+        console.error('Error fetching author:', error)
+        toast.error('작성자 정보를 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAuthor()
+  }, [username])
+
+  useEffect(() => {
+    if (!authorId) return
+
+    const fetchPosts = async () => {
+      setPostsLoading(true)
+      try {
+        const { posts: postsData, count } = await fetchAuthorPosts(authorId, sortBy, selectedTag, page)
+        setPosts(postsData)
+        setPostsCount(count)
+      } catch (error) {
+        console.error('Error fetching author posts:', error)
+        toast.error('게시글을 불러오는데 실패했습니다.')
+      } finally {
+        setPostsLoading(false)
+      }
+    }
+
+    fetchPosts()
+  }, [authorId, sortBy, selectedTag, page])
+
+  const maxTagCount = tagCloud[0]?.post_count || 1
+  const totalPages = Math.max(1, Math.ceil(postsCount / POSTS_PER_PAGE))
+
+  const handleSortChange = (sort: SortOption) => {
+    setSortBy(sort)
+    setPage(1)
+  }
+
+  const handleTagSelect = (tag: string) => {
+    setSelectedTag(selectedTag === tag ? null : tag)
+    setPage(1)
+  }
+
+  const handlePageChange = (nextPage: number) => {
+    setPage(nextPage)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!author) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16 text-center">
+        <p className="text-gray-500">존재하지 않는 사용자입니다.</p>
+      </div>
+    )
+  }
+
+  const joinedDate = new Date(author.created_at).toLocaleDateString('ko-KR', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* 프로필 */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+        <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
+          {author.avatar_url ? (
+            <img
+              src={author.avatar_url}
+              alt={author.username}
+              className="w-28 h-28 rounded-full object-cover border-4 border-gray-100"
+            />
+          ) : (
+            <div className="w-28 h-28 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white text-4xl font-bold">
+              {author.username.charAt(0).toUpperCase()}
+            </div>
+          )}
+
+          <div className="flex-1 text-center md:text-left">
+            <h1 className="text-3xl font-bold text-gray-900">{author.username}</h1>
+            {author.bio && <p className="mt-2 text-gray-600 whitespace-pre-wrap">{author.bio}</p>}
+
+            <div className="flex justify-center md:justify-start mt-4">
+              <FollowStats key={author.id} userId={author.id} showFollowButton />
+            </div>
+
+            <div className="flex flex-wrap justify-center md:justify-start gap-x-4 gap-y-1 mt-4 text-sm text-gray-500">
+              {email && (
+                <a href={`mailto:${email}`} className="flex items-center gap-1 hover:text-blue-600">
+                  <Mail className="w-4 h-4" />
+                  {email}
+                </a>
+              )}
+              <span className="flex items-center gap-1">
+                <Calendar className="w-4 h-4" />
+                {joinedDate} 가입
+              </span>
+            </div>
+
+            {/* 통계 */}
+            <div className="flex justify-center md:justify-start gap-8 mt-6">
+              <div className="text-center">
+                <p className="flex items-center justify-center gap-1 text-2xl font-bold text-gray-900">
+                  <FileText className="w-5 h-5 text-blue-600" />
+                  {stats.posts_count.toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-500">게시글</p>
+              </div>
+              <div className="text-center">
+                <p className="flex items-center justify-center gap-1 text-2xl font-bold text-gray-900">
+                  <Heart className="w-5 h-5 text-red-500" />
+                  {stats.likes_count.toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-500">받은 좋아요</p>
+              </div>
+              <div className="text-center">
+                <p className="flex items-center justify-center gap-1 text-2xl font-bold text-gray-900">
+                  <Eye className="w-5 h-5 text-gray-500" />
+                  {stats.views_count.toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-500">총 조회수</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* 태그 구름 */}
+        {tagCloud.length > 0 && (
+          <div className="mt-8 pt-6 border-t">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">태그</h2>
+            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-2">
+              {tagCloud.map(({ tag, post_count: count }) => (
+                <button
+                  key={tag}
+                  onClick={() => handleTagSelect(tag)}
+                  style={{ fontSize: `${0.8 + (count / maxTagCount) * 0.7}rem` }}
+                  className={`transition-colors ${
+                    selectedTag === tag ? 'text-blue-600 font-semibold' : 'text-gray-600 hover:text-blue-600'
+                  }`}
+                  title={`${count}개의 글`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 공개 읽기 목록 */}
+        {readingLists.length > 0 && (
+          <div className="mt-6 pt-6 border-t">
+            <h2 className="flex items-center gap-1.5 text-sm font-semibold text-gray-700 mb-3">
+              <ListChecks className="w-4 h-4" />
+              읽기 목록
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {readingLists.map((list) => (
+                <Link
+                  key={list.id}
+                  to={`/lists/${list.id}`}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-blue-50 hover:text-blue-700 transition-colors"
+                >
+                  {list.name}
+                  <span className="ml-1.5 text-gray-400">{list.reading_list_items[0]?.count ?? 0}</span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 글 목록 헤더 */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold">게시글</h2>
+          {selectedTag && (
+            <button
+              onClick={() => handleTagSelect(selectedTag)}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-full hover:bg-blue-200 transition-colors"
+            >
+              #{selectedTag}
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 bg-white rounded-lg shadow-md p-1">
+          {(Object.keys(sortLabels) as SortOption[]).map((sort) => (
+            <button
+              key={sort}
+              onClick={() => handleSortChange(sort)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                sortBy === sort ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <ArrowUpDown className="w-4 h-4" />
+              {sortLabels[sort]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 글 목록 */}
+      {postsLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">아직 공개된 게시글이 없습니다.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map((post) => (
+            <PostCard
+              key={post.id}
+              id={post.id}
+              title={post.title}
+              content={post.content}
+              thumbnailUrl={post.thumbnail_url}
+              tags={post.tags}
+              createdAt={post.created_at}
+              author={{
+                username: author.username,
+                avatarUrl: author.avatar_url,
+              }}
+              likesCount={post.likes_count}
+              commentsCount={post.comments_count}
+              viewsCount={post.views_count || 0}
+              slug={post.slug}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* 페이지네이션 */}
+      <Pagination currentPage={page} totalPages={totalPages} onPageChange={handlePageChange} />
+    </div>
+  )
+}
@@ -1,9 +1,10 @@
 import { useEffect, useState, useRef, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
 import PostCard from '../components/PostCard'
 import PostCardSkeleton from '../components/PostCardSkeleton'
-import { ArrowUpDown } from 'lucide-react'
+import { ArrowUpDown, TrendingUp } from 'lucide-react'
 
 interface Post {
   id: string
@@ -24,22 +25,45 @@ interface Post {
   comments_count?: number
 }
 
-type SortOption = 'latest' | 'popular'
+// 최신순 / 트렌딩(최근 반응 위주) / 인기순(기간 내 누적 반응)
+type SortOption = 'latest' | 'trending' | 'popular'
+type PopularPeriod = 'week' | 'month' | 'all'
+// 전체 글 / 팔로우한 작성자의 글
+type FeedOption = 'all' | 'following'
 
 const POSTS_PER_PAGE = 12
 
+const periodLabels: Record<PopularPeriod, string> = {
+  week: '이번 주',
+  month: '이번 달',
+  all: '전체 기간',
+}
+
 export default function HomePage() {
+  const { user } = useAuth()
+  const [feed, setFeed] = useState<FeedOption>('all')
   const [posts, setPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(true)
   const [sortBy, setSortBy] = useState<SortOption>('latest')
+  const [period, setPeriod] = useState<PopularPeriod>('week')
   const [page, setPage] = useState(0)
   
   const observerTarget = useRef<HTMLDivElement>(null)
 
+  const isFollowingFeed = feed === 'following' && !!user
+  const followerId = isFollowingFeed ? user.id : null
+
   // 게시글 가져오기
-  const fetchPosts = async (pageNum: number, sort: SortOption, reset = false) => {
+  // followerId: 팔로잉 피드를 볼 사용자 (전체 피드는 null)
+  const fetchPosts = async (
+    pageNum: number,
+    sort: SortOption,
+    period: PopularPeriod,
+    followerId: string | null,
+    reset = false
+  ) => {
     try {
       if (pageNum === 0) {
         setLoading(true)
@@ -47,64 +71,67 @@ export default function HomePage() {
         setLoadingMore(true)
       }
 
-      // 기본 쿼리
-      let query = supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles:user_id (username, avatar_url)
-        `, { count: 'exact' })
-        .eq('is_public', true)
+      // 팔로잉 피드: 팔로우한 작성자의 글만
+      let authorIds: string[] | null = null
+      if (followerId) {
+        const { data: followsData, error: followsError } = await supabase
+          .from('follows')
+          .select('following_id')
+          .eq('follower_id', followerId)
+
+        if (followsError) throw followsError
+
+        authorIds = (followsData || []).map((follow) => follow.following_id)
+        if (authorIds.length === 0) {
+          setPosts([])
+          setHasMore(false)
+          return
+        }
+      }
 
-      // 정렬
+      // 최신순은 작성 시각, 트렌딩/인기순은 데이터베이스에서 계산한 점수 순
+      // (정렬이 서버에서 끝나므로 다음 페이지도 같은 순위로 이어짐)
+      let query
       if (sort === 'latest') {
-        query = query.order('created_at', { ascending: false })
+        query = supabase
+          .from('posts')
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `, { count: 'exact' })
+          .eq('is_public', true)
+          .order('created_at', { ascending: false })
+
+        if (authorIds) {
+          query = query.in('user_id', authorIds)
+        }
+      } else {
+        query = supabase
+          .rpc('get_popular_posts', {
+            p_period: sort === 'popular' ? period : 'all',
+            p_trending: sort === 'trending',
+            p_author_ids: authorIds,
+          }, { count: 'exact' })
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `)
       }
 
       // 페이지네이션
       const from = pageNum * POSTS_PER_PAGE
       const to = from + POSTS_PER_PAGE - 1
-      query = query.range(from, to)
-
-      const { data, error, count } = await query
+      const { data, error, count } = await query.range(from, to)
 
       if (error) throw error
 
-      // 각 게시글의 좋아요, 댓글 수 가져오기
-      const postsWithCounts = await Promise.all(
-        (data || []).map(async (post) => {
-          const [likesResult, commentsResult] = await Promise.all([
-            supabase
-              .from('post_likes')
-              .select('id', { count: 'exact', head: true })
-              .eq('post_id', post.id),
-            supabase
-              .from('post_comments')
-              .select('id', { count: 'exact', head: true })
-              .eq('post_id', post.id),
-          ])
-
-          return {
-            ...post,
-            likes_count: likesResult.count || 0,
-            comments_count: commentsResult.count || 0,
-          }
-        })
-      )
-
-      // 인기순 정렬 (좋아요 + 댓글 수)
-      if (sort === 'popular') {
-        postsWithCounts.sort((a, b) => {
-          const scoreA = (a.likes_count || 0) + (a.comments_count || 0)
-          const scoreB = (b.likes_count || 0) + (b.comments_count || 0)
-          return scoreB - scoreA
-        })
-      }
+      // 좋아요, 댓글 수는 글 행에 함께 저장되어 있음
+      const pagePosts: Post[] = data || []
 
       if (reset) {
-        setPosts(postsWithCounts)
+        setPosts(pagePosts)
       } else {
-        setPosts((prev) => [...prev, ...postsWithCounts])
+        setPosts((prev) => [...prev, ...pagePosts])
       }
 
       setHasMore(count ? from + POSTS_PER_PAGE < count : false)
@@ -119,8 +146,8 @@ export default function HomePage() {
   // 초기 로드
   useEffect(() => {
     setPage(0)
-    fetchPosts(0, sortBy, true)
-  }, [sortBy])
+    fetchPosts(0, sortBy, period, followerId, true)
+  }, [sortBy, period, followerId])
 
   // 무한 스크롤
   const handleObserver = useCallback(
@@ -129,10 +156,10 @@ export default function HomePage() {
       if (target.isIntersecting && !loadingMore && hasMore) {
         const nextPage = page + 1
         setPage(nextPage)
-        fetchPosts(nextPage, sortBy, false)
+        fetchPosts(nextPage, sortBy, period, followerId, false)
       }
     },
-    [loadingMore, hasMore, page, sortBy]
+    [loadingMore, hasMore, page, sortBy, period, followerId]
   )
 
   useEffect(() => {
@@ -147,6 +174,16 @@ export default function HomePage() {
     }
   }, [handleObserver])
 
+  // 피드 변경
+  const handleFeedChange = (newFeed: FeedOption) => {
+    if (newFeed !== feed) {
+      setFeed(newFeed)
+      setPosts([])
+      setPage(0)
+      setHasMore(true)
+    }
+  }
+
   // 정렬 변경
   const handleSortChange = (newSort: SortOption) => {
     if (newSort !== sortBy) {
@@ -157,11 +194,41 @@ export default function HomePage() {
     }
   }
 
+  // 인기순 기간 변경
+  const handlePeriodChange = (newPeriod: PopularPeriod) => {
+    if (newPeriod !== period) {
+      setPeriod(newPeriod)
+      setPosts([])
+      setPage(0)
+      setHasMore(true)
+    }
+  }
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       {/* 헤더 */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
-        <h1 className="text-3xl sm:text-4xl font-bold">최근 게시글</h1>
+        {/* 피드 탭 (팔로잉은 로그인 시) */}
+        <div className="flex items-baseline gap-6">
+          <button
+            onClick={() => handleFeedChange('all')}
+            className={`text-3xl sm:text-4xl font-bold transition-colors ${
+              !isFollowingFeed ? 'text-gray-900' : 'text-gray-300 hover:text-gray-500'
+            }`}
+          >
+            최근 게시글
+          </button>
+          {user && (
+            <button
+              onClick={() => handleFeedChange('following')}
+              className={`text-3xl sm:text-4xl font-bold transition-colors ${
+                isFollowingFeed ? 'text-gray-900' : 'text-gray-300 hover:text-gray-500'
+              }`}
+            >
+              팔로잉
+            </button>
+          )}
+        </div>
         
         {/* 정렬 옵션 */}
         <div className="flex items-center gap-2 bg-white rounded-lg shadow-md p-1">
@@ -176,6 +243,17 @@ export default function HomePage() {
             <ArrowUpDown className="w-4 h-4" />
             최신순
           </button>
+          <button
+            onClick={() => handleSortChange('trending')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              sortBy === 'trending'
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <TrendingUp className="w-4 h-4" />
+            트렌딩
+          </button>
           <button
             onClick={() => handleSortChange('popular')}
             className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -190,6 +268,25 @@ export default function HomePage() {
         </div>
       </div>
 
+      {/* 인기순 기간 */}
+      {sortBy === 'popular' && (
+        <div className="flex justify-end gap-2 -mt-4 mb-8">
+          {(Object.keys(periodLabels) as PopularPeriod[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => handlePeriodChange(value)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                period === value
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-500 hover:bg-gray-100'
+              }`}
+            >
+              {periodLabels[value]}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* 로딩 상태 */}
       {loading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -198,15 +295,27 @@ export default function HomePage() {
           ))}
         </div>
       ) : posts.length === 0 ? (
-        <div className="text-center py-12">
-          <p className="text-gray-500 mb-4">아직 게시글이 없습니다.</p>
-          <Link
-            to="/write"
-            className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            첫 게시글을 작성해보세요!
-          </Link>
-        </div>
+        isFollowingFeed ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">팔로우한 작성자의 글이 아직 없습니다.</p>
+            <Link
+              to="/tags"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              관심 있는 작성자를 찾아보세요
+            </Link>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">아직 게시글이 없습니다.</p>
+            <Link
+              to="/write"
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              첫 게시글을 작성해보세요!
+            </Link>
+          </div>
+        )
       ) : (
         <>
           {/* 게시글 그리드 */}
@@ -2,9 +2,16 @@ import { useEffect, useState, useRef } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import { Camera, Edit2, Heart, FileText, Eye, MessageCircle, Lock, Globe, Trash2 } from 'lucide-react'
+import { Camera, Edit2, Heart, FileText, Eye, MessageCircle, Lock, Globe, Trash2, FilePen, Clock } from 'lucide-react'
 import { toast } from 'sonner'
 import { validateImageFile, resizeImage } from '../lib/imageUtils'
+import { getMarkdownPreview } from '../lib/markdownUtils'
+import { getRelativeTimeString, getCountdownString, toDateTimeLocalValue } from '../lib/timeUtils'
+import { getAuthorPath, getPostPath } from '../lib/slugUtils'
+import FollowStats from '../components/FollowStats'
+import BookmarksTab from '../components/BookmarksTab'
+import NotificationSettings from '../components/NotificationSettings'
+import { useBookmarks } from '../hooks/useBookmarks'
 
 interface Post {
   id: string
@@ -12,10 +19,23 @@ interface Post {
   content: string
   created_at: string
   is_public: boolean | null
+  publish_at?: string | null
+  slug: string | null
   views_count: number | null
   thumbnail_url: string | null
   likesCount?: number
   commentsCount?: number
+  profiles?: {
+    username: string
+  }
+}
+
+interface Draft {
+  id: string
+  post_id: string | null
+  title: string
+  content: string
+  updated_at: string
 }
 
 interface Profile {
@@ -34,9 +54,11 @@ interface Stats {
 
 export default function MyPage() {
   const { user, refreshProfile } = useAuth()
+  const { bookmarkedIds } = useBookmarks()
   const navigate = useNavigate()
   const [posts, setPosts] = useState<Post[]>([])
   const [likedPosts, setLikedPosts] = useState<Post[]>([])
+  const [drafts, setDrafts] = useState<Draft[]>([])
   const [profile, setProfile] = useState<Profile | null>(null)
   const [stats, setStats] = useState<Stats>({ totalPosts: 0, totalLikes: 0 })
   const [loading, setLoading] = useState(true)
@@ -54,17 +76,29 @@ export default function MyPage() {
   const editFileInputRef = useRef<HTMLInputElement>(null)
   
   // 탭 관련 상태
-  const [activeTab, setActiveTab] = useState<'my-posts' | 'liked-posts'>('my-posts')
+  const [activeTab, setActiveTab] = useState<'my-posts' | 'liked-posts' | 'bookmarks' | 'drafts' | 'scheduled'>('my-posts')
   const [sortBy, setSortBy] = useState<'latest' | 'popular' | 'views'>('latest')
   const [filterBy, setFilterBy] = useState<'all' | 'public' | 'private'>('all')
   const [hoveredPostId, setHoveredPostId] = useState<string | null>(null)
 
+  // 예약 발행 관련 상태
+  const [now, setNow] = useState(() => new Date())
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null)
+  const [rescheduleValue, setRescheduleValue] = useState('')
+
   useEffect(() => {
     if (user) {
       fetchUserData()
     }
   }, [user])
 
+  // 예약 탭에서는 1초마다 남은 시간 갱신
+  useEffect(() => {
+    if (activeTab !== 'scheduled') return
+    const timer = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(timer)
+  }, [activeTab])
+
   const fetchUserData = async () => {
     try {
       const [postsResponse, profileResponse] = await Promise.all([
@@ -85,28 +119,12 @@ export default function MyPage() {
 
       const postsData = postsResponse.data || []
       
-      // 각 게시글의 좋아요 수와 댓글 수 가져오기
-      const postsWithStats = await Promise.all(
-        postsData.map(async (post) => {
-          const [likesResult, commentsResult] = await Promise.all([
-            supabase
-              .from('post_likes')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', post.id),
-            supabase
-              .from('post_comments')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', post.id)
-              .is('deleted_at', null)
-          ])
-          
-          return {
-            ...post,
-            likesCount: likesResult.count || 0,
-            commentsCount: commentsResult.count || 0,
-          }
-        })
-      )
+      // 좋아요 수와 댓글 수는 글 행에 함께 저장되어 있음
+      const postsWithStats = postsData.map((post) => ({
+        ...post,
+        likesCount: post.likes_count,
+        commentsCount: post.comments_count,
+      }))
 
       setPosts(postsWithStats)
       setProfile(profileResponse.data)
@@ -117,11 +135,14 @@ export default function MyPage() {
         avatar_url: profileResponse.data.avatar_url || '',
       })
 
-      // 통계 가져오기
-      await fetchStats(postsData)
+      // 통계 계산
+      updateStats(postsWithStats)
       
       // 좋아요한 글 가져오기
       await fetchLikedPosts()
+
+      // 임시저장 글 가져오기
+      await fetchDrafts()
     } catch (error) {
       console.error('Error fetching user data:', error)
     } finally {
@@ -145,34 +166,21 @@ export default function MyPage() {
         // 좋아요한 게시글 정보 가져오기
         const { data: postsData, error: postsError } = await supabase
           .from('posts')
-          .select('*')
+          .select(`
+            *,
+            profiles:user_id (username)
+          `)
           .in('id', postIds)
           .order('created_at', { ascending: false })
 
         if (postsError) throw postsError
 
         // 좋아요 수와 댓글 수 추가
-        const postsWithStats = await Promise.all(
-          (postsData || []).map(async (post) => {
-            const [likesResult, commentsResult] = await Promise.all([
-              supabase
-                .from('post_likes')
-                .select('*', { count: 'exact', head: true })
-                .eq('post_id', post.id),
-              supabase
-                .from('post_comments')
-                .select('*', { count: 'exact', head: true })
-                .eq('post_id', post.id)
-                .is('deleted_at', null)
-            ])
-            
-            return {
-              ...post,
-              likesCount: likesResult.count || 0,
-              commentsCount: commentsResult.count || 0,
-            }
-          })
-        )
+        const postsWithStats = (postsData || []).map((post) => ({
+          ...post,
+          likesCount: post.likes_count,
+          commentsCount: post.comments_count,
+        }))
 
         setLikedPosts(postsWithStats)
       } else {
@@ -183,28 +191,29 @@ export default function MyPage() {
     }
   }
 
-  const fetchStats = async (userPosts: Post[]) => {
+  const fetchDrafts = async () => {
     try {
-      // 작성한 글 수
-      const totalPosts = userPosts.length
-
-      // 받은 좋아요 총합
-      if (totalPosts > 0) {
-        const postIds = userPosts.map(post => post.id)
-        const { count } = await supabase
-          .from('post_likes')
-          .select('*', { count: 'exact', head: true })
-          .in('post_id', postIds)
-
-        setStats({ totalPosts, totalLikes: count || 0 })
-      } else {
-        setStats({ totalPosts: 0, totalLikes: 0 })
-      }
+      const { data, error } = await supabase
+        .from('post_drafts')
+        .select('id, post_id, title, content, updated_at')
+        .eq('user_id', user?.id)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      setDrafts(data || [])
     } catch (error) {
-      console.error('Error fetching stats:', error)
+      console.error('Error fetching drafts:', error)
     }
   }
 
+  const updateStats = (userPosts: Post[]) => {
+    // 작성한 글 수, 받은 좋아요 총합
+    setStats({
+      totalPosts: userPosts.length,
+      totalLikes: userPosts.reduce((sum, post) => sum + (post.likesCount || 0), 0),
+    })
+  }
+
   const handleAvatarClick = () => {
     fileInputRef.current?.click()
   }
@@ -395,6 +404,79 @@ export default function MyPage() {
     }
   }
 
+  const handleDeleteDraft = async (draftId: string) => {
+    if (!window.confirm('임시저장된 글을 삭제하시겠습니까?')) return
+
+    try {
+      const { error } = await supabase
+        .from('post_drafts')
+        .delete()
+        .eq('id', draftId)
+        .eq('user_id', user?.id)
+
+      if (error) throw error
+
+      toast.success('임시저장 글이 삭제되었습니다.')
+      setDrafts((prev) => prev.filter((draft) => draft.id !== draftId))
+    } catch (error) {
+      console.error('Error deleting draft:', error)
+      toast.error('임시저장 글 삭제에 실패했습니다.')
+    }
+  }
+
+  // 예약 시간 변경
+  const handleReschedule = async (postId: string) => {
+    if (!rescheduleValue || new Date(rescheduleValue).getTime() <= Date.now()) {
+      toast.error('예약 시간은 현재 시간 이후로 설정해주세요.')
+      return
+    }
+
+    const publishAt = new Date(rescheduleValue).toISOString()
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .update({ publish_at: publishAt, is_public: false })
+        .eq('id', postId)
+        .eq('user_id', user?.id)
+
+      if (error) throw error
+
+      toast.success('예약 시간이 변경되었습니다.')
+      setPosts((prev) => prev.map((post) => (post.id === postId ? { ...post, publish_at: publishAt } : post)))
+      setReschedulingId(null)
+      setRescheduleValue('')
+    } catch (error) {
+      console.error('Error rescheduling post:', error)
+      toast.error('예약 시간 변경에 실패했습니다.')
+    }
+  }
+
+  // 예약 취소 (비공개 글로 유지)
+  const handleCancelSchedule = async (postId: string) => {
+    if (!window.confirm('발행 예약을 취소하시겠습니까? 글은 비공개 상태로 유지됩니다.')) return
+
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .update({ publish_at: null })
+        .eq('id', postId)
+        .eq('user_id', user?.id)
+
+      if (error) throw error
+
+      toast.success('발행 예약이 취소되었습니다.')
+      setPosts((prev) => prev.map((post) => (post.id === postId ? { ...post, publish_at: null } : post)))
+    } catch (error) {
+      console.error('Error cancelling schedule:', error)
+      toast.error('예약 취소에 실패했습니다.')
+    }
+  }
+
+  // 예약된 글 (발행 시간 순)
+  const scheduledPosts = posts
+    .filter((post) => post.publish_at && !post.is_public)
+    .sort((a, b) => new Date(a.publish_at!).getTime() - new Date(b.publish_at!).getTime())
+
   // 정렬 및 필터링
   const getFilteredAndSortedPosts = () => {
     const currentPosts = activeTab === 'my-posts' ? posts : likedPosts
@@ -495,6 +577,11 @@ export default function MyPage() {
                     {profile?.bio && (
                       <p className="text-gray-700 mt-3 max-w-2xl">{profile.bio}</p>
                     )}
+                    {user && (
+                      <div className="mt-3">
+                        <FollowStats userId={user.id} />
+                      </div>
+                    )}
                   </div>
                   
                   {/* 프로필 편집 버튼 */}
@@ -509,6 +596,14 @@ export default function MyPage() {
 
                 <div className="flex items-center gap-2 mt-4 text-sm text-gray-500">
                   <span>가입일: {profile?.created_at ? new Date(profile.created_at).toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' }) : '-'}</span>
+                  {profile?.username && (
+                    <>
+                      <span>·</span>
+                      <Link to={getAuthorPath(profile.username)} className="text-blue-600 hover:underline">
+                        공개 프로필 보기
+                      </Link>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -712,6 +807,36 @@ export default function MyPage() {
               >
                 좋아요한 글 ({likedPosts.length})
               </button>
+              <button
+                onClick={() => setActiveTab('bookmarks')}
+                className={`flex-1 px-6 py-4 text-center font-semibold transition-colors ${
+                  activeTab === 'bookmarks'
+                    ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                북마크 ({bookmarkedIds.size})
+              </button>
+              <button
+                onClick={() => setActiveTab('drafts')}
+                className={`flex-1 px-6 py-4 text-center font-semibold transition-colors ${
+                  activeTab === 'drafts'
+                    ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                임시저장 ({drafts.length})
+              </button>
+              <button
+                onClick={() => setActiveTab('scheduled')}
+                className={`flex-1 px-6 py-4 text-center font-semibold transition-colors ${
+                  activeTab === 'scheduled'
+                    ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                예약 ({scheduledPosts.length})
+              </button>
             </div>
           </div>
 
@@ -773,7 +898,124 @@ export default function MyPage() {
 
           {/* 글 목록 */}
           <div className="p-6">
-            {getFilteredAndSortedPosts().length === 0 ? (
+            {activeTab === 'bookmarks' ? (
+              <BookmarksTab />
+            ) : activeTab === 'scheduled' ? (
+              scheduledPosts.length === 0 ? (
+                <div className="text-center py-12">
+                  <Clock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">예약된 글이 없습니다.</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {scheduledPosts.map((post) => (
+                    <div key={post.id} className="py-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            to={getPostPath(post, post.profiles?.username ?? profile?.username)}
+                            className="block text-lg font-semibold text-gray-900 truncate hover:text-blue-600 transition-colors"
+                          >
+                            {post.title}
+                          </Link>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {new Date(post.publish_at!).toLocaleString('ko-KR', {
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}{' '}
+                            발행 예정
+                          </p>
+                          <p className="inline-flex items-center gap-1 mt-2 px-2 py-1 bg-purple-100 text-purple-700 text-xs font-medium rounded">
+                            <Clock className="w-3 h-3" />
+                            {getCountdownString(post.publish_at!, now)}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <button
+                            onClick={() => {
+                              setReschedulingId(reschedulingId === post.id ? null : post.id)
+                              setRescheduleValue(toDateTimeLocalValue(post.publish_at!))
+                            }}
+                            className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                          >
+                            시간 변경
+                          </button>
+                          <button
+                            onClick={() => handleCancelSchedule(post.id)}
+                            className="px-3 py-1.5 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                          >
+                            예약 취소
+                          </button>
+                        </div>
+                      </div>
+
+                      {reschedulingId === post.id && (
+                        <div className="flex flex-wrap items-center gap-2 mt-3">
+                          <input
+                            type="datetime-local"
+                            value={rescheduleValue}
+                            min={toDateTimeLocalValue(new Date())}
+                            onChange={(e) => setRescheduleValue(e.target.value)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <button
+                            onClick={() => handleReschedule(post.id)}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            저장
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : activeTab === 'drafts' ? (
+              drafts.length === 0 ? (
+                <div className="text-center py-12">
+                  <FilePen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">임시저장된 글이 없습니다.</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {drafts.map((draft) => (
+                    <div key={draft.id} className="flex items-start justify-between gap-4 py-4">
+                      <Link
+                        to={draft.post_id ? `/edit/${draft.post_id}` : `/write?draft=${draft.id}`}
+                        className="flex-1 min-w-0 group"
+                      >
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="text-lg font-semibold text-gray-900 truncate group-hover:text-blue-600 transition-colors">
+                            {draft.title.trim() || '제목 없음'}
+                          </h3>
+                          {draft.post_id && (
+                            <span className="shrink-0 px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs font-medium rounded">
+                              수정 중
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 line-clamp-1 mb-1">
+                          {getMarkdownPreview(draft.content, 100) || '내용 없음'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {getRelativeTimeString(draft.updated_at)} 저장
+                        </p>
+                      </Link>
+                      <button
+                        onClick={() => handleDeleteDraft(draft.id)}
+                        className="shrink-0 p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="삭제"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : getFilteredAndSortedPosts().length === 0 ? (
               <div className="text-center py-12">
                 <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <p className="text-gray-500 mb-4">
@@ -800,7 +1042,7 @@ export default function MyPage() {
                     onMouseLeave={() => setHoveredPostId(null)}
                   >
                     <Link
-                      to={`/post/${post.id}`}
+                      to={getPostPath(post, post.profiles?.username ?? profile?.username)}
                       className="block h-full p-5 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-lg transition-all bg-white"
                     >
                       {/* 썸네일 */}
@@ -844,7 +1086,12 @@ export default function MyPage() {
 
                       {/* 공개/비공개 배지 */}
                       <div className="mt-3">
-                        {post.is_public ? (
+                        {post.publish_at && !post.is_public ? (
+                          <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 text-xs font-medium rounded">
+                            <Clock className="w-3 h-3" />
+                            예약
+                          </span>
+                        ) : post.is_public ? (
                           <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 text-xs font-medium rounded">
                             <Globe className="w-3 h-3" />
                             공개
@@ -889,6 +1136,9 @@ export default function MyPage() {
             )}
           </div>
         </div>
+
+        {/* 알림 설정 */}
+        <NotificationSettings />
       </div>
     </div>
   )
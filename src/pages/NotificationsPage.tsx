@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Bell, CheckCheck, Heart, MessageCircle, Reply, Trash2, UserPlus } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthorPath, getPostPath } from '../lib/slugUtils'
+import { getRelativeTimeString } from '../lib/timeUtils'
+import { getNotificationMessage, notifyNotificationsChanged, type NotificationType } from '../lib/notificationUtils'
+
+interface Notification {
+  id: string
+  type: NotificationType
+  is_read: boolean
+  created_at: string
+  post_id: string | null
+  comment_id: string | null
+  actor?: {
+    username: string
+    avatar_url: string | null
+  }
+  post?: {
+    id: string
+    title: string
+    slug: string | null
+    profiles?: {
+      username: string
+    }
+  } | null
+  comment?: {
+    content: string
+  } | null
+}
+
+type NotificationFilter = 'all' | 'unread'
+
+const NOTIFICATIONS_PER_PAGE = 20
+
+const typeIcons: Record<NotificationType, React.ReactNode> = {
+  post_like: <Heart className="w-3.5 h-3.5" />,
+  post_comment: <MessageCircle className="w-3.5 h-3.5" />,
+  comment_reply: <Reply className="w-3.5 h-3.5" />,
+  comment_like: <Heart className="w-3.5 h-3.5" />,
+  follow: <UserPlus className="w-3.5 h-3.5" />,
+}
+
+const typeIconColors: Record<NotificationType, string> = {
+  post_like: 'bg-red-500',
+  post_comment: 'bg-blue-500',
+  comment_reply: 'bg-green-500',
+  comment_like: 'bg-pink-500',
+  follow: 'bg-purple-500',
+}
+
+// 최신 알림부터 NOTIFICATIONS_PER_PAGE개씩
+// 더 불러올 때는 마지막 알림보다 이전 것만 (읽음 처리/삭제로 목록이 바뀌어도 건너뛰지 않도록)
+const fetchNotifications = async (userId: string, filter: NotificationFilter, before?: string) => {
+  let query = supabase
+    .from('notifications')
+    .select(`
+      *,
+      actor:profiles!notifications_actor_id_fkey (username, avatar_url),
+      post:posts (
+        id,
+        title,
+        slug,
+        profiles:user_id (username)
+      ),
+      comment:post_comments (content)
+    `)
+    .eq('user_id', userId)
+
+  if (filter === 'unread') {
+    query = query.eq('is_read', false)
+  }
+
+  if (before) {
+    query = query.lt('created_at', before)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_PER_PAGE)
+
+  if (error) throw error
+  return (data || []) as Notification[]
+}
+
+export default function NotificationsPage() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [filter, setFilter] = useState<NotificationFilter>('all')
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadNotifications = async () => {
+      setLoading(true)
+      try {
+        const data = await fetchNotifications(user.id, filter)
+        setNotifications(data)
+        setHasMore(data.length === NOTIFICATIONS_PER_PAGE)
+      } catch (error) {
+        console.error('Error fetching notifications:', error)
+        toast.error('알림을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadNotifications()
+  }, [user, filter])
+
+  const handleLoadMore = async () => {
+    const last = notifications[notifications.length - 1]
+    if (!user || !last) return
+
+    setLoadingMore(true)
+    try {
+      const more = await fetchNotifications(user.id, filter, last.created_at)
+      setNotifications((prev) => [...prev, ...more])
+      setHasMore(more.length === NOTIFICATIONS_PER_PAGE)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+      toast.error('알림을 불러오는데 실패했습니다.')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const markAsRead = async (ids: string[]) => {
+    if (!user || ids.length === 0) return
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', user.id)
+      .in('id', ids)
+
+    if (error) throw error
+
+    setNotifications((prev) =>
+      prev.map((notification) => (ids.includes(notification.id) ? { ...notification, is_read: true } : notification))
+    )
+    notifyNotificationsChanged()
+  }
+
+  const handleMarkAllAsRead = async () => {
+    if (!user) return
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .eq('user_id', user.id)
+        .eq('is_read', false)
+
+      if (error) throw error
+
+      setNotifications((prev) => prev.map((notification) => ({ ...notification, is_read: true })))
+      notifyNotificationsChanged()
+      toast.success('모든 알림을 읽음으로 표시했습니다.')
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+      toast.error('읽음 처리에 실패했습니다.')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('notifications').delete().eq('id', id)
+
+      if (error) throw error
+
+      setNotifications((prev) => prev.filter((notification) => notification.id !== id))
+      notifyNotificationsChanged()
+    } catch (error) {
+      console.error('Error deleting notification:', error)
+      toast.error('알림 삭제에 실패했습니다.')
+    }
+  }
+
+  // 알림을 누르면 읽음 처리 후 관련 글(댓글 알림은 해당 댓글, 팔로우는 프로필)로 이동
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.is_read) {
+      try {
+        await markAsRead([notification.id])
+      } catch (error) {
+        console.error('Error marking notification as read:', error)
+      }
+    }
+
+    if (notification.type === 'follow') {
+      if (notification.actor?.username) navigate(getAuthorPath(notification.actor.username))
+    } else if (notification.post) {
+      // 댓글 관련 알림은 해당 댓글 위치로
+      const hash = notification.comment_id ? `#comment-${notification.comment_id}` : ''
+      navigate(`${getPostPath(notification.post, notification.post.profiles?.username)}${hash}`)
+    } else {
+      toast.error('삭제되었거나 볼 수 없는 글입니다.')
+    }
+  }
+
+  const handleMarkAsRead = async (id: string) => {
+    try {
+      await markAsRead([id])
+    } catch (error) {
+      console.error('Error marking notification as read:', error)
+      toast.error('읽음 처리에 실패했습니다.')
+    }
+  }
+
+  const unreadCount = notifications.filter((notification) => !notification.is_read).length
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      {/* 헤더 */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <h1 className="flex items-center gap-2 text-3xl font-bold">
+          <Bell className="w-7 h-7 text-blue-600" />
+          알림
+        </h1>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 bg-white rounded-lg shadow-md p-1">
+            {(['all', 'unread'] as NotificationFilter[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  filter === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {value === 'all' ? '전체' : '읽지 않음'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleMarkAllAsRead}
+            disabled={unreadCount === 0}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-700 bg-white rounded-lg shadow-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <CheckCheck className="w-4 h-4" />
+            모두 읽음
+          </button>
+        </div>
+      </div>
+
+      {/* 알림 목록 */}
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-16">
+            <Bell className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">{filter === 'unread' ? '읽지 않은 알림이 없습니다.' : '아직 알림이 없습니다.'}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={`group flex items-start gap-3 px-5 py-4 transition-colors ${
+                  notification.is_read ? 'hover:bg-gray-50' : 'bg-blue-50/60 hover:bg-blue-50'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className="flex flex-1 min-w-0 items-start gap-3 text-left"
+                >
+                  {/* 보낸 사람 + 종류 아이콘 */}
+                  <div className="relative shrink-0">
+                    {notification.actor?.avatar_url ? (
+                      <img
+                        src={notification.actor.avatar_url}
+                        alt={notification.actor.username}
+                        className="w-10 h-10 rounded-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white font-bold">
+                        {notification.actor?.username?.charAt(0).toUpperCase() || '?'}
+                      </div>
+                    )}
+                    <span
+                      className={`absolute -bottom-1 -right-1 flex items-center justify-center w-5 h-5 rounded-full text-white ring-2 ring-white ${typeIconColors[notification.type]}`}
+                    >
+                      {typeIcons[notification.type]}
+                    </span>
+                  </div>
+
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800">
+                      <span className="font-semibold">{notification.actor?.username || '알 수 없음'}</span>
+                      {getNotificationMessage(notification.type)}
+                    </p>
+                    {notification.post && (
+                      <p className="text-sm text-gray-500 truncate">{notification.post.title}</p>
+                    )}
+                    {notification.comment && (
+                      <p className="mt-1 text-sm text-gray-600 line-clamp-2">"{notification.comment.content}"</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-400">{getRelativeTimeString(notification.created_at)}</p>
+                  </div>
+                </button>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  {!notification.is_read && (
+                    <button
+                      type="button"
+                      onClick={() => handleMarkAsRead(notification.id)}
+                      className="p-1.5 text-gray-400 hover:text-blue-600 rounded-lg transition-colors"
+                      title="읽음으로 표시"
+                    >
+                      <span className="block w-2.5 h-2.5 bg-blue-600 rounded-full" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(notification.id)}
+                    className="p-1.5 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600 rounded-lg transition-all"
+                    title="삭제"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {hasMore && !loading && (
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 text-gray-700 bg-white rounded-lg shadow-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {loadingMore ? '불러오는 중...' : '더 보기'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
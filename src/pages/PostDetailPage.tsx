@@ -1,10 +1,20 @@
-import { useEffect, useState } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams, useNavigate, useLocation } from 'react-router-dom'
 import { toast } from 'sonner'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { Heart, Share2, Edit, Trash2, ArrowLeft } from 'lucide-react'
 import CommentSection from '../components/CommentSection'
+import MarkdownRenderer from '../components/MarkdownRenderer'
+import SeriesNavigation from '../components/SeriesNavigation'
+import TableOfContents from '../components/TableOfContents'
+import FollowButton from '../components/FollowButton'
+import BookmarkButton from '../components/BookmarkButton'
+import ReadingListMenu from '../components/ReadingListMenu'
+import { extractHeadings } from '../lib/headingUtils'
+import { copyToClipboard } from '../lib/clipboardUtils'
+import { getAuthorPath, getPostPath } from '../lib/slugUtils'
+import { getTagColor, getTagPath } from '../lib/tagUtils'
 
 interface Post {
   id: string
@@ -12,10 +22,13 @@ interface Post {
   content: string
   tags: string[] | null
   is_public: boolean | null
+  publish_at: string | null
+  series_id: string | null
   slug: string | null
   created_at: string
   thumbnail_url: string | null
   views_count: number | null
+  likes_count: number
   user_id: string
   profiles?: {
     username: string
@@ -23,94 +36,152 @@ interface Post {
   }
 }
 
-// 태그 색상 배열
-const tagColors = [
-  'bg-blue-100 text-blue-700',
-  'bg-purple-100 text-purple-700',
-  'bg-green-100 text-green-700',
-  'bg-yellow-100 text-yellow-700',
-  'bg-pink-100 text-pink-700',
-  'bg-indigo-100 text-indigo-700',
-  'bg-red-100 text-red-700',
-  'bg-teal-100 text-teal-700',
-]
-
-const getTagColor = (tag: string) => {
-  const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)
-  return tagColors[hash % tagColors.length]
-}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 export default function PostDetailPage() {
-  const { id } = useParams<{ id: string }>()
+  // /post/:id 또는 /@username/slug
+  const { id: postParam, handle, slug } = useParams<{ id?: string; handle?: string; slug?: string }>()
   const navigate = useNavigate()
+  const location = useLocation()
   const { user } = useAuth()
   const [post, setPost] = useState<Post | null>(null)
+  const id = post?.id
   const [loading, setLoading] = useState(true)
   const [likesCount, setLikesCount] = useState(0)
   const [isLiked, setIsLiked] = useState(false)
   const [likingInProgress, setLikingInProgress] = useState(false)
   const [heartAnimation, setHeartAnimation] = useState(false)
 
+  // 목차에는 h3까지만 표시
+  const content = post?.content ?? ''
+  const headings = useMemo(
+    () => extractHeadings(content).filter((heading) => heading.level <= 3),
+    [content]
+  )
+
   useEffect(() => {
-    if (id) {
-      fetchPost()
-      incrementViewCount()
-      fetchLikesData()
+    fetchPost()
+  }, [postParam, handle, slug, user])
+
+  // 본문을 불러온 뒤 주소의 #제목 위치로 이동
+  useEffect(() => {
+    if (!content || !window.location.hash) return
+    // 잘못된 %-인코딩이 들어 있으면 이동하지 않음
+    let id: string
+    try {
+      id = decodeURIComponent(window.location.hash.slice(1))
+    } catch {
+      return
+    }
+    document.getElementById(id)?.scrollIntoView()
+  }, [content])
+
+  // 정확히 한 글에만 해당할 때만 (slug는 작성자마다 따로라 작성자 없이 찾으면 여러 글일 수 있음)
+  const fetchPostBy = async (column: 'id' | 'slug', value: string, userId?: string) => {
+    let query = supabase
+      .from('posts')
+      .select(`
+        *,
+        profiles:user_id (username, avatar_url)
+      `)
+      .eq(column, value)
+
+    if (userId) {
+      query = query.eq('user_id', userId)
     }
-  }, [id, user])
 
+    const { data, error } = await query.limit(2)
+    if (error) throw error
+    const posts: Post[] = data || []
+    return posts.length === 1 ? posts[0] : null
+  }
+
+  // 주소에 맞는 글 찾기 (예전 slug, /post/:id는 대표 주소로 이동)
   const fetchPost = async () => {
+    let redirected = false
     try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles:user_id (username, avatar_url)
-        `)
-        .eq('id', id)
-        .single()
+      let data: Post | null = null
+      const username = handle?.startsWith('@') ? handle.slice(1) : null
+
+      if (postParam) {
+        // 예전 링크(/post/:slug)도 지원
+        data = await fetchPostBy(UUID_PATTERN.test(postParam) ? 'id' : 'slug', postParam)
+      } else if (username && slug) {
+        const { data: author, error: authorError } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('username', username)
+          .maybeSingle()
+
+        if (authorError) throw authorError
+
+        if (author) {
+          data = await fetchPostBy('slug', slug, author.id)
+
+          // slug가 바뀐 글이면 기록에서 찾기
+          if (!data) {
+            const { data: history } = await supabase
+              .from('post_slug_history')
+              .select('post_id')
+              .eq('user_id', author.id)
+              .eq('slug', slug)
+              .maybeSingle()
+
+            if (history) {
+              data = await fetchPostBy('id', history.post_id)
+            }
+          }
+        }
+      }
+
+      if (!data) throw new Error('Post not found')
+
+      // 대표 주소가 아니면 이동 (이동한 페이지에서 다시 불러옴)
+      const canonicalPath = getPostPath(data, data.profiles?.username)
+      const isCanonical = data.slug && data.profiles?.username
+        ? username === data.profiles.username && slug === data.slug
+        : postParam === data.id
+      if (!isCanonical) {
+        redirected = true
+        navigate(`${canonicalPath}${location.hash}`, { replace: true })
+        return
+      }
 
-      if (error) throw error
       setPost(data)
+      setLikesCount(data.likes_count || 0)
+      incrementViewCount(data.id)
+      fetchIsLiked(data.id)
     } catch (error) {
       console.error('Error fetching post:', error)
       toast.error('게시글을 불러오는데 실패했습니다.')
       navigate('/')
     } finally {
-      setLoading(false)
+      if (!redirected) setLoading(false)
     }
   }
 
-  const incrementViewCount = async () => {
+  const incrementViewCount = async (postId: string) => {
     try {
-      await supabase.rpc('increment_views', { post_id: id })
+      await supabase.rpc('increment_views', { post_id: postId })
     } catch (error) {
       // 조회수 증가 실패는 무시 (RPC 함수가 없을 수 있음)
       console.log('View count increment skipped')
     }
   }
 
-  const fetchLikesData = async () => {
+  // 현재 사용자가 좋아요 눌렀는지 확인 (좋아요 수는 글과 함께 불러옴)
+  const fetchIsLiked = async (postId: string) => {
+    if (!user) return
+
     try {
-      // 좋아요 총 개수
-      const { count } = await supabase
+      const { data } = await supabase
         .from('post_likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('post_id', id)
-
-      setLikesCount(count || 0)
-
-      // 현재 사용자가 좋아요 눌렀는지 확인
-      if (user) {
-        const { data } = await supabase
-          .from('post_likes')
-          .select('id')
-          .eq('post_id', id)
-          .eq('user_id', user.id)
-          .single()
+        .select('id')
+        .eq('post_id', postId)
+        .eq('user_id', user.id)
+        .maybeSingle()
 
-        setIsLiked(!!data)
-      }
+      setIsLiked(!!data)
     } catch (error) {
       console.error('Error fetching likes:', error)
     }
@@ -164,14 +235,7 @@ export default function PostDetailPage() {
   }
 
   const handleShare = async () => {
-    const url = window.location.href
-    try {
-      await navigator.clipboard.writeText(url)
-      toast.success('링크가 클립보드에 복사되었습니다!')
-    } catch (error) {
-      console.error('Error copying to clipboard:', error)
-      toast.error('링크 복사에 실패했습니다.')
-    }
+    await copyToClipboard(window.location.href)
   }
 
   const handleDelete = async () => {
@@ -230,12 +294,29 @@ export default function PostDetailPage() {
         </div>
       </div>
 
-      <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="relative max-w-4xl mx-auto px-4 py-8">
+        {/* 목차 (넓은 화면에서 본문 오른쪽에 고정) */}
+        {headings.length >= 2 && (
+          <aside className="hidden 2xl:block absolute top-8 bottom-8 left-full w-72 pl-8">
+            <div className="sticky top-24">
+              <TableOfContents headings={headings} />
+            </div>
+          </aside>
+        )}
+
         <article className="bg-white rounded-xl shadow-lg overflow-hidden">
           {/* 헤더 영역 */}
           <div className="p-8 border-b">
             {/* 공개/비공개 상태 표시 */}
-            {isAuthor && !post.is_public && (
+            {isAuthor && !post.is_public && post.publish_at && (
+              <div className="mb-6 px-4 py-3 bg-purple-50 border border-purple-200 rounded-lg flex items-center gap-2">
+                <span className="text-purple-600">⏰</span>
+                <p className="text-sm text-purple-800">
+                  이 글은 {new Date(post.publish_at).toLocaleString('ko-KR')}에 발행 예약되어 있습니다. 그 전까지는 본인만 볼 수 있습니다.
+                </p>
+              </div>
+            )}
+            {isAuthor && !post.is_public && !post.publish_at && (
               <div className="mb-6 px-4 py-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2">
                 <span className="text-yellow-600">🔒</span>
                 <p className="text-sm text-yellow-800">
@@ -250,23 +331,29 @@ export default function PostDetailPage() {
             {/* 작성자 정보 */}
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center gap-4">
-                {post.profiles?.avatar_url ? (
-                  <img
-                    src={post.profiles.avatar_url}
-                    alt={post.profiles.username}
-                    className="w-12 h-12 rounded-full object-cover"
-                  />
-                ) : (
-                  <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white text-lg font-bold">
-                    {post.profiles?.username?.charAt(0).toUpperCase() || '?'}
+                <Link
+                  to={post.profiles?.username ? getAuthorPath(post.profiles.username) : '#'}
+                  className="flex items-center gap-4 group"
+                >
+                  {post.profiles?.avatar_url ? (
+                    <img
+                      src={post.profiles.avatar_url}
+                      alt={post.profiles.username}
+                      className="w-12 h-12 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white text-lg font-bold">
+                      {post.profiles?.username?.charAt(0).toUpperCase() || '?'}
+                    </div>
+                  )}
+                  <div>
+                    <p className="font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
+                      {post.profiles?.username || '알 수 없음'}
+                    </p>
+                    <p className="text-sm text-gray-500">{formattedDate}</p>
                   </div>
-                )}
-                <div>
-                  <p className="font-semibold text-gray-900">
-                    {post.profiles?.username || '알 수 없음'}
-                  </p>
-                  <p className="text-sm text-gray-500">{formattedDate}</p>
-                </div>
+                </Link>
+                <FollowButton authorId={post.user_id} size="sm" />
               </div>
 
               {/* 작성자 전용 버튼 */}
@@ -294,26 +381,30 @@ export default function PostDetailPage() {
             {post.tags && post.tags.length > 0 && (
               <div className="flex flex-wrap gap-2">
                 {post.tags.map((tag, index) => (
-                  <span
+                  <Link
                     key={index}
-                    className={`px-3 py-1.5 text-sm font-medium rounded-full ${getTagColor(
+                    to={getTagPath(tag)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-full hover:brightness-95 ${getTagColor(
                       tag
                     )}`}
                   >
                     #{tag}
-                  </span>
+                  </Link>
                 ))}
               </div>
             )}
           </div>
 
+          {/* 시리즈 */}
+          {post.series_id && (
+            <div className="px-8 pt-8">
+              <SeriesNavigation seriesId={post.series_id} postId={post.id} />
+            </div>
+          )}
+
           {/* 본문 */}
           <div className="p-8">
-            <div className="prose prose-lg max-w-none">
-              <p className="whitespace-pre-wrap text-gray-800 leading-relaxed">
-                {post.content}
-              </p>
-            </div>
+            <MarkdownRenderer content={post.content} className="text-lg" />
           </div>
 
           {/* 하단 버튼 영역 */}
@@ -346,21 +437,25 @@ export default function PostDetailPage() {
                 </p>
               </div>
 
-              {/* 공유 버튼 */}
-              <button
-                onClick={handleShare}
-                className="flex items-center gap-2 px-6 py-2.5 bg-white text-gray-700 rounded-lg font-medium hover:bg-gray-100 border border-gray-300 transition-colors"
-              >
-                <Share2 className="w-5 h-5" />
-                <span>공유</span>
-              </button>
+              {/* 북마크 / 읽기 목록 / 공유 버튼 */}
+              <div className="flex flex-wrap justify-center gap-3">
+                <BookmarkButton postId={post.id} />
+                <ReadingListMenu postId={post.id} />
+                <button
+                  onClick={handleShare}
+                  className="flex items-center gap-2 px-6 py-2.5 bg-white text-gray-700 rounded-lg font-medium hover:bg-gray-100 border border-gray-300 transition-colors"
+                >
+                  <Share2 className="w-5 h-5" />
+                  <span>공유</span>
+                </button>
+              </div>
             </div>
           </div>
         </article>
 
         {/* 댓글 섹션 */}
         <div className="mt-8">
-          <CommentSection postId={id!} />
+          <CommentSection postId={post.id} />
         </div>
       </div>
     </div>
@@ -0,0 +1,340 @@
+import { useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Edit2, Globe, ListChecks, Lock, Trash2, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthorPath } from '../lib/slugUtils'
+import PostCard from '../components/PostCard'
+
+interface ReadingList {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  is_public: boolean
+  created_at: string
+  updated_at: string
+  profiles?: {
+    username: string
+    avatar_url: string | null
+  }
+}
+
+interface ListPost {
+  id: string
+  title: string
+  content: string
+  tags: string[] | null
+  slug: string | null
+  created_at: string
+  thumbnail_url: string | null
+  views_count: number | null
+  profiles?: {
+    username: string
+    avatar_url: string | null
+  }
+  likes_count: number
+  comments_count: number
+}
+
+export default function ReadingListPage() {
+  const { id } = useParams<{ id: string }>()
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [list, setList] = useState<ReadingList | null>(null)
+  const [posts, setPosts] = useState<ListPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editName, setEditName] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [editIsPublic, setEditIsPublic] = useState(false)
+
+  useEffect(() => {
+    const fetchList = async () => {
+      if (!id) return
+
+      try {
+        const { data: listData, error: listError } = await supabase
+          .from('reading_lists')
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `)
+          .eq('id', id)
+          .maybeSingle()
+
+        if (listError) throw listError
+        setList(listData)
+        if (!listData) return
+
+        // 목록에 추가된 순서대로 (최근 추가가 위)
+        const { data: itemsData, error: itemsError } = await supabase
+          .from('reading_list_items')
+          .select(`
+            *,
+            posts (
+              *,
+              profiles:user_id (username, avatar_url)
+            )
+          `)
+          .eq('reading_list_id', id)
+          .order('created_at', { ascending: false })
+
+        if (itemsError) throw itemsError
+
+        // 삭제되었거나 비공개로 바뀌어 볼 수 없는 글은 제외
+        setPosts(
+          (itemsData || [])
+            .map((item: { posts: ListPost | null }) => item.posts)
+            .filter((post: ListPost | null): post is ListPost => !!post)
+        )
+      } catch (error) {
+        console.error('Error fetching reading list:', error)
+        toast.error('읽기 목록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchList()
+  }, [id])
+
+  const isOwner = !!user && user.id === list?.user_id
+
+  const startEditing = () => {
+    if (!list) return
+    setEditName(list.name)
+    setEditDescription(list.description || '')
+    setEditIsPublic(list.is_public)
+    setIsEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (!list) return
+    const name = editName.trim()
+    if (!name) {
+      toast.error('목록 이름을 입력해주세요.')
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('reading_lists')
+        .update({
+          name,
+          description: editDescription.trim() || null,
+          is_public: editIsPublic,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', list.id)
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('같은 이름의 목록이 이미 있습니다.')
+          return
+        }
+        throw error
+      }
+
+      setList({ ...list, name, description: editDescription.trim() || null, is_public: editIsPublic })
+      setIsEditing(false)
+      toast.success('읽기 목록이 수정되었습니다.')
+    } catch (error) {
+      console.error('Error updating reading list:', error)
+      toast.error('읽기 목록 수정에 실패했습니다.')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!list || !confirm(`'${list.name}' 목록을 삭제하시겠습니까?\n목록에 담긴 글은 삭제되지 않습니다.`)) return
+
+    try {
+      const { error } = await supabase.from('reading_lists').delete().eq('id', list.id)
+
+      if (error) throw error
+
+      toast.success('읽기 목록이 삭제되었습니다.')
+      navigate('/mypage')
+    } catch (error) {
+      console.error('Error deleting reading list:', error)
+      toast.error('읽기 목록 삭제에 실패했습니다.')
+    }
+  }
+
+  const handleRemovePost = async (postId: string) => {
+    if (!list) return
+
+    try {
+      const { error } = await supabase
+        .from('reading_list_items')
+        .delete()
+        .eq('reading_list_id', list.id)
+        .eq('post_id', postId)
+
+      if (error) throw error
+
+      setPosts((prev) => prev.filter((post) => post.id !== postId))
+      toast.success('목록에서 뺐습니다.')
+    } catch (error) {
+      console.error('Error removing reading list item:', error)
+      toast.error('목록에서 빼는데 실패했습니다.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!list) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16 text-center">
+        <p className="text-gray-500">존재하지 않거나 비공개인 읽기 목록입니다.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* 목록 정보 */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+        {isEditing ? (
+          <div className="space-y-4">
+            <input
+              type="text"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              maxLength={50}
+              className="w-full px-4 py-2 text-2xl font-bold border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="목록 이름"
+            />
+            <textarea
+              value={editDescription}
+              onChange={(e) => setEditDescription(e.target.value)}
+              rows={3}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="목록 설명 (선택)"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={editIsPublic}
+                onChange={(e) => setEditIsPublic(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              다른 사람에게 공개
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                저장
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="flex items-center gap-1.5 text-sm font-semibold text-blue-600 mb-1">
+                <ListChecks className="w-4 h-4" />
+                읽기 목록
+                {list.is_public ? (
+                  <span className="inline-flex items-center gap-1 ml-2 px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded">
+                    <Globe className="w-3 h-3" />
+                    공개
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 ml-2 px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-medium rounded">
+                    <Lock className="w-3 h-3" />
+                    비공개
+                  </span>
+                )}
+              </p>
+              <h1 className="text-3xl font-bold text-gray-900">{list.name}</h1>
+              {list.description && <p className="mt-2 text-gray-600 whitespace-pre-wrap">{list.description}</p>}
+              <p className="mt-3 text-sm text-gray-500">
+                {list.profiles?.username && (
+                  <Link to={getAuthorPath(list.profiles.username)} className="font-medium text-gray-700 hover:text-blue-600">
+                    {list.profiles.username}
+                  </Link>
+                )}
+                {' · '}
+                {posts.length.toLocaleString()}개의 글
+              </p>
+            </div>
+
+            {isOwner && (
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={startEditing}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  수정
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-2 px-4 py-2 text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  삭제
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 글 목록 */}
+      {posts.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">아직 목록에 담긴 글이 없습니다.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map((post) => (
+            <div key={post.id} className="relative">
+              <PostCard
+                id={post.id}
+                title={post.title}
+                content={post.content}
+                thumbnailUrl={post.thumbnail_url}
+                tags={post.tags}
+                createdAt={post.created_at}
+                author={{
+                  username: post.profiles?.username || '알 수 없음',
+                  avatarUrl: post.profiles?.avatar_url,
+                }}
+                likesCount={post.likes_count}
+                commentsCount={post.comments_count}
+                viewsCount={post.views_count || 0}
+                slug={post.slug}
+              />
+              {isOwner && (
+                <button
+                  onClick={() => handleRemovePost(post.id)}
+                  className="absolute top-3 left-3 p-2 bg-white/90 text-gray-700 rounded-full shadow-md hover:bg-red-50 hover:text-red-600 transition-colors"
+                  aria-label="목록에서 빼기"
+                  title="목록에서 빼기"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,20 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useSearchParams, Link } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
+import { getAuthorPath, getPostPath } from '../lib/slugUtils'
+import { stripMarkdown } from '../lib/markdownUtils'
+import {
+  buildSearchParams,
+  escapeLikePattern,
+  getMatchSnippet,
+  getSearchTerms,
+  hasActiveFilters,
+  parseSearchFilters,
+  type SearchFilterState,
+} from '../lib/searchUtils'
+import HighlightText from '../components/HighlightText'
+import Pagination from '../components/Pagination'
+import SearchFilters from '../components/SearchFilters'
 import { FileText, User } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -10,6 +24,7 @@ interface Post {
   content: string
   created_at: string
   user_id: string
+  slug: string | null
   profiles?: {
     username: string
     avatar_url: string | null
@@ -23,101 +38,128 @@ interface Profile {
   bio: string | null
 }
 
+const POSTS_PER_PAGE = 10
+const PROFILES_PER_PAGE = 10
+
+// 작성자 검색 (닉네임에 검색어 포함)
+const searchProfiles = (query: string, from: number) =>
+  supabase
+    .from('profiles')
+    .select('*', { count: 'exact' })
+    .ilike('username', `%${escapeLikePattern(query)}%`)
+    .order('username')
+    .range(from, from + PROFILES_PER_PAGE - 1)
+
 export default function SearchPage() {
-  const [searchParams] = useSearchParams()
-  const query = searchParams.get('q') || ''
+  const [searchParams, setSearchParams] = useSearchParams()
+  // 검색 조건은 모두 URL에 (공유/뒤로 가기 가능)
+  const filters = useMemo(() => parseSearchFilters(searchParams), [searchParams])
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+  const { query } = filters
+  const searchTerms = useMemo(() => getSearchTerms(query), [query])
+  const canSearch = !!query || hasActiveFilters(filters)
   const [posts, setPosts] = useState<Post[]>([])
+  const [postsCount, setPostsCount] = useState(0)
   const [profiles, setProfiles] = useState<Profile[]>([])
+  const [profilesCount, setProfilesCount] = useState(0)
   const [loading, setLoading] = useState(true)
+  const [loadingMoreProfiles, setLoadingMoreProfiles] = useState(false)
 
+  // 글 검색 (전문 검색 + 필터, 서버에서 정렬/페이지 나눔)
   useEffect(() => {
-    if (query.trim()) {
-      searchContent()
-    } else {
-      setLoading(false)
+    if (!canSearch) return
+
+    const searchPosts = async () => {
+      setLoading(true)
+      try {
+        const from = (page - 1) * POSTS_PER_PAGE
+        const { data, error, count } = await supabase
+          .rpc('search_posts', {
+            p_query: filters.query,
+            p_tags: filters.tags.length > 0 ? filters.tags : null,
+            p_author: filters.author || null,
+            p_from: filters.from || null,
+            p_to: filters.to || null,
+            p_has_thumbnail: filters.hasThumbnail,
+            p_sort: filters.sort,
+          }, { count: 'exact' })
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `)
+          .range(from, from + POSTS_PER_PAGE - 1)
+
+        if (error) throw error
+
+        setPosts(data || [])
+        setPostsCount(count || 0)
+      } catch (error) {
+        console.error('Error searching:', error)
+        toast.error('검색에 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
     }
+
+    searchPosts()
+  }, [filters, page, canSearch])
+
+  // 작성자 검색 (검색어가 바뀔 때만)
+  useEffect(() => {
+    if (!query) return
+
+    const fetchProfiles = async () => {
+      try {
+        const { data, error, count } = await searchProfiles(query, 0)
+
+        if (error) throw error
+
+        setProfiles(data || [])
+        setProfilesCount(count || 0)
+      } catch (error) {
+        console.error('Error searching profiles:', error)
+      }
+    }
+
+    fetchProfiles()
   }, [query])
 
-  const searchContent = async () => {
-    setLoading(true)
+  const handleLoadMoreProfiles = async () => {
+    setLoadingMoreProfiles(true)
     try {
-      // 글 검색 (제목 또는 내용에 검색어 포함)
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profiles:user_id (username, avatar_url)
-        `)
-        .eq('is_public', true)
-        .or(`title.ilike.%${query}%,content.ilike.%${query}%`)
-        .order('created_at', { ascending: false })
-        .limit(20)
-
-      if (postsError) throw postsError
-
-      // 작성자 검색 (닉네임에 검색어 포함)
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('*')
-        .ilike('username', `%${query}%`)
-        .limit(10)
-
-      if (profilesError) throw profilesError
-
-      setPosts(postsData || [])
-      setProfiles(profilesData || [])
+      const { data, error, count } = await searchProfiles(query, profiles.length)
+
+      if (error) throw error
+
+      setProfiles((prev) => [...prev, ...(data || [])])
+      setProfilesCount(count || 0)
     } catch (error) {
-      console.error('Error searching:', error)
-      toast.error('검색에 실패했습니다.')
+      console.error('Error searching profiles:', error)
+      toast.error('작성자를 더 불러오는데 실패했습니다.')
     } finally {
-      setLoading(false)
+      setLoadingMoreProfiles(false)
     }
   }
 
-  // 검색어 강조 함수
-  const highlightText = (text: string, searchQuery: string) => {
-    if (!searchQuery.trim()) return text
-
-    const regex = new RegExp(`(${searchQuery})`, 'gi')
-    const parts = text.split(regex)
-
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 text-gray-900 px-1 rounded">
-          {part}
-        </mark>
-      ) : (
-        part
-      )
-    )
+  // 필터를 바꾸면 첫 페이지부터
+  const handleFiltersChange = (nextFilters: SearchFilterState) => {
+    setSearchParams(buildSearchParams(nextFilters))
   }
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 py-8">
-        <div className="max-w-5xl mx-auto px-4">
-          <div className="flex justify-center items-center py-12">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-          </div>
-        </div>
-      </div>
-    )
-  }
-
-  if (!query.trim()) {
-    return (
-      <div className="min-h-screen bg-gray-50 py-8">
-        <div className="max-w-5xl mx-auto px-4">
-          <div className="text-center py-12">
-            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-500">검색어를 입력해주세요.</p>
-          </div>
-        </div>
-      </div>
-    )
+  const handlePageChange = (nextPage: number) => {
+    const params = new URLSearchParams(searchParams)
+    if (nextPage > 1) {
+      params.set('page', String(nextPage))
+    } else {
+      params.delete('page')
+    }
+    setSearchParams(params)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
-  const totalResults = posts.length + profiles.length
+  const visibleProfiles = query ? profiles : []
+  const totalResults = postsCount + (query ? profilesCount : 0)
+  const totalPages = Math.ceil(postsCount / POSTS_PER_PAGE)
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -125,14 +167,33 @@ export default function SearchPage() {
         {/* 검색 결과 헤더 */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            '<span className="text-blue-600">{query}</span>' 검색 결과
+            {query ? (
+              <>
+                '<span className="text-blue-600">{query}</span>' 검색 결과
+              </>
+            ) : (
+              '검색 결과'
+            )}
           </h1>
-          <p className="text-gray-600">
-            총 {totalResults}개의 결과를 찾았습니다.
-          </p>
+          {canSearch && !loading && (
+            <p className="text-gray-600">
+              총 {totalResults.toLocaleString()}개의 결과를 찾았습니다.
+            </p>
+          )}
         </div>
 
-        {totalResults === 0 ? (
+        <SearchFilters filters={filters} onChange={handleFiltersChange} />
+
+        {!canSearch ? (
+          <div className="text-center py-12">
+            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">검색어를 입력하거나 필터를 선택해주세요.</p>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : totalResults === 0 ? (
           <div className="text-center py-12 bg-white rounded-xl shadow-lg">
             <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <p className="text-gray-500 text-lg">검색 결과가 없습니다.</p>
@@ -141,26 +202,29 @@ export default function SearchPage() {
         ) : (
           <div className="space-y-8">
             {/* 글 결과 */}
-            {posts.length > 0 && (
+            {postsCount > 0 && (
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <div className="flex items-center gap-2 mb-6">
                   <FileText className="w-6 h-6 text-blue-600" />
                   <h2 className="text-2xl font-bold text-gray-900">
-                    글 ({posts.length})
+                    글 ({postsCount.toLocaleString()})
                   </h2>
                 </div>
                 <div className="space-y-4">
                   {posts.map((post) => (
                     <Link
                       key={post.id}
-                      to={`/post/${post.id}`}
+                      to={getPostPath(post, post.profiles?.username)}
                       className="block p-5 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
                     >
                       <h3 className="text-xl font-semibold mb-2 text-gray-900">
-                        {highlightText(post.title, query)}
+                        <HighlightText text={post.title} terms={searchTerms} />
                       </h3>
                       <p className="text-gray-600 text-sm mb-3 line-clamp-2">
-                        {highlightText(post.content, query)}
+                        <HighlightText
+                          text={getMatchSnippet(stripMarkdown(post.content), searchTerms)}
+                          terms={searchTerms}
+                        />
                       </p>
                       <div className="flex items-center gap-3 text-sm text-gray-500">
                         <div className="flex items-center gap-2">
@@ -185,23 +249,25 @@ export default function SearchPage() {
                     </Link>
                   ))}
                 </div>
+                <Pagination currentPage={page} totalPages={totalPages} onPageChange={handlePageChange} />
               </div>
             )}
 
             {/* 작성자 결과 */}
-            {profiles.length > 0 && (
+            {visibleProfiles.length > 0 && (
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <div className="flex items-center gap-2 mb-6">
                   <User className="w-6 h-6 text-blue-600" />
                   <h2 className="text-2xl font-bold text-gray-900">
-                    작성자 ({profiles.length})
+                    작성자 ({profilesCount.toLocaleString()})
                   </h2>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {profiles.map((profile) => (
-                    <div
+                  {visibleProfiles.map((profile) => (
+                    <Link
                       key={profile.id}
-                      className="p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
+                      to={getAuthorPath(profile.username)}
+                      className="block p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
                     >
                       <div className="flex items-center gap-3">
                         {profile.avatar_url ? (
@@ -217,7 +283,7 @@ export default function SearchPage() {
                         )}
                         <div>
                           <p className="font-semibold text-gray-900">
-                            {highlightText(profile.username, query)}
+                            <HighlightText text={profile.username} terms={searchTerms} />
                           </p>
                           {profile.bio && (
                             <p className="text-sm text-gray-600 line-clamp-1">
@@ -226,9 +292,20 @@ export default function SearchPage() {
                           )}
                         </div>
                       </div>
-                    </div>
+                    </Link>
                   ))}
                 </div>
+                {profiles.length < profilesCount && (
+                  <div className="text-center mt-6">
+                    <button
+                      onClick={handleLoadMoreProfiles}
+                      disabled={loadingMoreProfiles}
+                      className="px-6 py-2 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                    >
+                      {loadingMoreProfiles ? '불러오는 중...' : '작성자 더 보기'}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,341 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { ArrowLeft, ChevronDown, ChevronUp, Edit2, Layers, Lock, Trash2 } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { getMarkdownPreview } from '../lib/markdownUtils'
+import { getRelativeTimeString } from '../lib/timeUtils'
+import { getPostPath } from '../lib/slugUtils'
+
+interface Series {
+  id: string
+  title: string
+  description: string | null
+  user_id: string
+  created_at: string
+  updated_at: string
+  profiles?: {
+    username: string
+    avatar_url: string | null
+  }
+}
+
+interface SeriesPost {
+  id: string
+  title: string
+  slug: string | null
+  content: string
+  thumbnail_url: string | null
+  is_public: boolean | null
+  series_order: number | null
+  created_at: string
+}
+
+export default function SeriesPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const [series, setSeries] = useState<Series | null>(null)
+  const [posts, setPosts] = useState<SeriesPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editTitle, setEditTitle] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [movingId, setMovingId] = useState<string | null>(null)
+
+  const fetchPosts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('id, title, slug, content, thumbnail_url, is_public, series_order, created_at')
+      .eq('series_id', id)
+      .order('series_order', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    setPosts(data || [])
+  }, [id])
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      if (!id) return
+
+      try {
+        const { data, error } = await supabase
+          .from('series')
+          .select(`
+            *,
+            profiles:user_id (username, avatar_url)
+          `)
+          .eq('id', id)
+          .single()
+
+        if (error) throw error
+        setSeries(data)
+        await fetchPosts()
+      } catch (error) {
+        console.error('Error fetching series:', error)
+        toast.error('시리즈를 불러오는데 실패했습니다.')
+        navigate('/')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSeries()
+  }, [id, fetchPosts, navigate])
+
+  const isOwner = !!series && user?.id === series.user_id
+
+  // 시리즈 정보 수정
+  const handleSave = async () => {
+    if (!series || !editTitle.trim()) {
+      toast.error('시리즈 이름을 입력해주세요.')
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('series')
+        .update({
+          title: editTitle.trim(),
+          description: editDescription.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', series.id)
+        .eq('user_id', user?.id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      setSeries({ ...series, ...data })
+      setIsEditing(false)
+      toast.success('시리즈가 수정되었습니다.')
+    } catch (error) {
+      console.error('Error updating series:', error)
+      toast.error('시리즈 수정에 실패했습니다.')
+    }
+  }
+
+  // 시리즈 삭제 (글은 삭제되지 않고 시리즈에서만 빠짐)
+  const handleDelete = async () => {
+    if (!series) return
+    if (!window.confirm('시리즈를 삭제하시겠습니까?\n시리즈에 속한 글은 삭제되지 않습니다.')) return
+
+    try {
+      const { error } = await supabase
+        .from('series')
+        .delete()
+        .eq('id', series.id)
+        .eq('user_id', user?.id)
+
+      if (error) throw error
+
+      toast.success('시리즈가 삭제되었습니다.')
+      navigate('/mypage')
+    } catch (error) {
+      console.error('Error deleting series:', error)
+      toast.error('시리즈 삭제에 실패했습니다.')
+    }
+  }
+
+  // 글 순서 변경
+  const handleMove = async (postId: string, position: number) => {
+    if (!series) return
+
+    setMovingId(postId)
+    try {
+      const { error } = await supabase.rpc('set_post_series', {
+        p_post_id: postId,
+        p_series_id: series.id,
+        p_position: position,
+      })
+
+      if (error) throw error
+      await fetchPosts()
+    } catch (error) {
+      console.error('Error reordering series:', error)
+      toast.error('순서 변경에 실패했습니다.')
+    } finally {
+      setMovingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!series) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <p>시리즈를 찾을 수 없습니다.</p>
+      </div>
+    )
+  }
+
+  // 작성자가 아니면 공개된 글만 표시
+  const visiblePosts = isOwner ? posts : posts.filter((post) => post.is_public)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <button
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-2 mb-6 text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>뒤로</span>
+        </button>
+
+        {/* 시리즈 정보 */}
+        <div className="bg-white rounded-xl shadow-sm p-8 mb-6">
+          <p className="flex items-center gap-1.5 text-sm font-semibold text-blue-600 mb-2">
+            <Layers className="w-4 h-4" />
+            시리즈
+          </p>
+
+          {isEditing ? (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                className="w-full px-4 py-2.5 text-2xl font-bold border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="시리즈 이름"
+              />
+              <textarea
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                placeholder="시리즈 소개 (선택)"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  취소
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  저장
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold text-gray-900">{series.title}</h1>
+                {isOwner && (
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => {
+                        setEditTitle(series.title)
+                        setEditDescription(series.description || '')
+                        setIsEditing(true)
+                      }}
+                      className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="시리즈 수정"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="시리즈 삭제"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {series.description && (
+                <p className="mt-3 text-gray-600 whitespace-pre-wrap">{series.description}</p>
+              )}
+            </>
+          )}
+
+          <div className="flex items-center gap-3 mt-6 text-sm text-gray-500">
+            {series.profiles?.avatar_url ? (
+              <img
+                src={series.profiles.avatar_url}
+                alt={series.profiles.username}
+                className="w-8 h-8 rounded-full object-cover"
+              />
+            ) : (
+              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center text-white text-sm font-bold">
+                {series.profiles?.username?.charAt(0).toUpperCase() || '?'}
+              </div>
+            )}
+            <span className="font-medium text-gray-900">{series.profiles?.username || '알 수 없음'}</span>
+            <span>·</span>
+            <span>글 {visiblePosts.length}개</span>
+            <span>·</span>
+            <span>{getRelativeTimeString(series.updated_at)} 업데이트</span>
+          </div>
+        </div>
+
+        {/* 글 목록 */}
+        {visiblePosts.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm text-center py-16">
+            <Layers className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">아직 시리즈에 글이 없습니다.</p>
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {visiblePosts.map((post, index) => (
+              <li key={post.id} className="bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow">
+                <div className="flex gap-4 p-6">
+                  <span className="text-2xl font-bold text-blue-200 w-8 shrink-0">{index + 1}</span>
+                  <Link to={getPostPath(post, series.profiles?.username)} className="flex-1 min-w-0 group">
+                    <h2 className="text-lg font-semibold text-gray-900 group-hover:text-blue-600 transition-colors flex items-center gap-2">
+                      <span className="truncate">{post.title}</span>
+                      {!post.is_public && <Lock className="w-4 h-4 text-gray-400 shrink-0" />}
+                    </h2>
+                    <p className="mt-1 text-sm text-gray-600 line-clamp-2">{getMarkdownPreview(post.content, 150)}</p>
+                    <p className="mt-2 text-xs text-gray-400">{getRelativeTimeString(post.created_at)}</p>
+                  </Link>
+                  {post.thumbnail_url && (
+                    <img
+                      src={post.thumbnail_url}
+                      alt={post.title}
+                      className="hidden sm:block w-28 h-20 object-cover rounded-lg shrink-0"
+                    />
+                  )}
+                  {isOwner && (
+                    <div className="flex flex-col gap-1 shrink-0">
+                      <button
+                        onClick={() => handleMove(post.id, index)}
+                        disabled={index === 0 || movingId !== null}
+                        className="p-1 text-gray-500 rounded hover:bg-gray-100 disabled:opacity-30"
+                        aria-label="앞으로 이동"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(post.id, index + 2)}
+                        disabled={index === visiblePosts.length - 1 || movingId !== null}
+                        className="p-1 text-gray-500 rounded hover:bg-gray-100 disabled:opacity-30"
+                        aria-label="뒤로 이동"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
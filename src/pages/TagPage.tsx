@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { ArrowUpDown, Hash } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { getTagColor, normalizeTag } from '../lib/tagUtils'
+import PostCard from '../components/PostCard'
+import PostCardSkeleton from '../components/PostCardSkeleton'
+import Pagination from '../components/Pagination'
+
+interface Post {
+  id: string
+  title: string
+  content: string
+  tags: string[] | null
+  slug: string | null
+  created_at: string
+  thumbnail_url: string | null
+  views_count: number | null
+  profiles?: {
+    username: string
+    avatar_url: string | null
+  }
+  likes_count: number
+  comments_count: number
+}
+
+type SortOption = 'latest' | 'popular'
+
+const POSTS_PER_PAGE = 12
+
+// 태그의 공개 글을 한 페이지씩 (인기순은 홈 화면과 같은 인기 점수)
+const fetchTagPosts = async (tag: string, sort: SortOption, page: number) => {
+  const from = (page - 1) * POSTS_PER_PAGE
+  const to = from + POSTS_PER_PAGE - 1
+
+  const query = sort === 'popular'
+    ? supabase
+        .rpc('get_popular_posts', { p_tag: tag }, { count: 'exact' })
+        .select(`
+          *,
+          profiles:user_id (username, avatar_url)
+        `)
+    : supabase
+        .from('posts')
+        .select(`
+          *,
+          profiles:user_id (username, avatar_url)
+        `, { count: 'exact' })
+        .eq('is_public', true)
+        .contains('tags', [tag])
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+
+  const { data, error, count } = await query.range(from, to)
+  if (error) throw error
+  const posts: Post[] = data || []
+  return { posts, count: count || 0 }
+}
+
+export default function TagPage() {
+  const { tag: tagParam = '' } = useParams<{ tag: string }>()
+  // 태그는 정규화해서 저장되므로 /tags/React 도 react 로 조회
+  const tag = normalizeTag(tagParam)
+  // 정렬/페이지는 주소에 남겨 공유·뒤로 가기에도 유지
+  const [searchParams, setSearchParams] = useSearchParams()
+  const sortBy: SortOption = searchParams.get('sort') === 'popular' ? 'popular' : 'latest'
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+
+  const [posts, setPosts] = useState<Post[]>([])
+  const [postsCount, setPostsCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchPosts = async () => {
+      setLoading(true)
+      try {
+        const result = await fetchTagPosts(tag, sortBy, page)
+        setPosts(result.posts)
+        setPostsCount(result.count)
+      } catch (error) {
+        console.error('Error fetching tag posts:', error)
+        toast.error('게시글을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPosts()
+  }, [tag, sortBy, page])
+
+  const totalPages = Math.max(1, Math.ceil(postsCount / POSTS_PER_PAGE))
+
+  const handleSortChange = (sort: SortOption) => {
+    if (sort === sortBy) return
+    setSearchParams(sort === 'popular' ? { sort } : {})
+  }
+
+  const handlePageChange = (nextPage: number) => {
+    const params = new URLSearchParams(searchParams)
+    if (nextPage > 1) {
+      params.set('page', String(nextPage))
+    } else {
+      params.delete('page')
+    }
+    setSearchParams(params)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* 헤더 */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <Link to="/tags" className="text-sm text-gray-500 hover:text-blue-600 transition-colors">
+            전체 태그
+          </Link>
+          <h1 className="flex items-center gap-2 mt-1 text-3xl sm:text-4xl font-bold">
+            <span className={`flex items-center justify-center w-10 h-10 rounded-full ${getTagColor(tag)}`}>
+              <Hash className="w-5 h-5" />
+            </span>
+            {tag}
+          </h1>
+          {!loading && <p className="text-gray-500 mt-2">{postsCount.toLocaleString()}개의 게시글</p>}
+        </div>
+
+        {/* 정렬 옵션 */}
+        <div className="flex items-center gap-2 bg-white rounded-lg shadow-md p-1">
+          <button
+            onClick={() => handleSortChange('latest')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              sortBy === 'latest'
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <ArrowUpDown className="w-4 h-4" />
+            최신순
+          </button>
+          <button
+            onClick={() => handleSortChange('popular')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              sortBy === 'popular'
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            <ArrowUpDown className="w-4 h-4" />
+            인기순
+          </button>
+        </div>
+      </div>
+
+      {/* 게시글 목록 */}
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <PostCardSkeleton key={i} />
+          ))}
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">이 태그가 달린 게시글이 없습니다.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {posts.map((post) => (
+            <PostCard
+              key={post.id}
+              id={post.id}
+              title={post.title}
+              content={post.content}
+              thumbnailUrl={post.thumbnail_url}
+              tags={post.tags}
+              createdAt={post.created_at}
+              author={{
+                username: post.profiles?.username || '알 수 없음',
+                avatarUrl: post.profiles?.avatar_url,
+              }}
+              likesCount={post.likes_count}
+              commentsCount={post.comments_count}
+              viewsCount={post.views_count || 0}
+              slug={post.slug}
+            />
+          ))}
+        </div>
+      )}
+
+      <Pagination currentPage={page} totalPages={totalPages} onPageChange={handlePageChange} />
+    </div>
+  )
+}
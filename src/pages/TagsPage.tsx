@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Hash, Search } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { getTagColor, getTagPath } from '../lib/tagUtils'
+
+interface TagCount {
+  tag: string
+  post_count: number
+}
+
+type TagSortOption = 'count' | 'name'
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<TagCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState('')
+  const [sortBy, setSortBy] = useState<TagSortOption>('count')
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_tag_counts')
+
+        if (error) throw error
+        setTags(data || [])
+      } catch (error) {
+        console.error('Error fetching tags:', error)
+        toast.error('태그 목록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTags()
+  }, [])
+
+  // 검색어 필터 + 정렬 (RPC는 글 수 순으로 반환)
+  const visibleTags = useMemo(() => {
+    const keyword = filter.trim().toLowerCase()
+    const filtered = keyword ? tags.filter(({ tag }) => tag.toLowerCase().includes(keyword)) : tags
+    return sortBy === 'name' ? [...filtered].sort((a, b) => a.tag.localeCompare(b.tag, 'ko')) : filtered
+  }, [tags, filter, sortBy])
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold">태그</h1>
+          {!loading && <p className="text-gray-500 mt-1">{tags.length.toLocaleString()}개의 태그</p>}
+        </div>
+
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <div className="relative flex-1 sm:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="태그 찾기"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as TagSortOption)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="count">글 많은 순</option>
+            <option value="name">이름순</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center min-h-[40vh]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : visibleTags.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">{filter ? '일치하는 태그가 없습니다.' : '아직 등록된 태그가 없습니다.'}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {visibleTags.map(({ tag, post_count }) => (
+            <Link
+              key={tag}
+              to={getTagPath(tag)}
+              className="flex items-center justify-between gap-2 p-4 bg-white rounded-xl shadow-md hover:shadow-lg transition-shadow"
+            >
+              <span className={`flex items-center gap-1 px-2.5 py-1 text-sm font-medium rounded-full truncate ${getTagColor(tag)}`}>
+                <Hash className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">{tag}</span>
+              </span>
+              <span className="shrink-0 text-sm text-gray-500">{post_count.toLocaleString()}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
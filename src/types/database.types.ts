@@ -14,6 +14,172 @@ export type Database = {
   }
   public: {
     Tables: {
+      bookmarks: {
+        Row: {
+          created_at: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          comment_like: boolean
+          comment_reply: boolean
+          follow: boolean
+          post_comment: boolean
+          post_like: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment_like?: boolean
+          comment_reply?: boolean
+          follow?: boolean
+          post_comment?: boolean
+          post_like?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment_like?: boolean
+          comment_reply?: boolean
+          follow?: boolean
+          post_comment?: boolean
+          post_like?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          is_read: boolean
+          post_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          post_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          post_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "post_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_comments: {
         Row: {
           content: string
@@ -24,6 +190,8 @@ export type Database = {
           user_id: string
           parent_id: string | null
           deleted_at: string | null
+          likes_count: number
+          replies_count: number
         }
         Insert: {
           content: string
@@ -34,6 +202,8 @@ export type Database = {
           user_id: string
           parent_id?: string | null
           deleted_at?: string | null
+          likes_count?: number
+          replies_count?: number
         }
         Update: {
           content?: string
@@ -44,6 +214,8 @@ export type Database = {
           user_id?: string
           parent_id?: string | null
           deleted_at?: string | null
+          likes_count?: number
+          replies_count?: number
         }
         Relationships: [
           {
@@ -113,47 +285,197 @@ export type Database = {
           },
         ]
       }
+      post_drafts: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          post_id: string | null
+          tags: string[]
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          tags?: string[]
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          tags?: string[]
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_drafts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_slug_history: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          slug: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          slug: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          slug?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_slug_history_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_slug_history_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          post_id: string
+          tags: string[] | null
+          thumbnail_url: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          post_id: string
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          post_id?: string
+          tags?: string[] | null
+          thumbnail_url?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
+          comments_count: number
           content: string
           created_at: string
           id: string
           is_public: boolean | null
+          likes_count: number
+          publish_at: string | null
+          series_id: string | null
+          series_order: number | null
           slug: string | null
           tags: string[] | null
           thumbnail_url: string | null
           title: string
+          title_choseong: string | null
           updated_at: string
           user_id: string
           views_count: number | null
         }
         Insert: {
+          comments_count?: number
           content: string
           created_at?: string
           id?: string
           is_public?: boolean | null
+          likes_count?: number
+          publish_at?: string | null
+          series_id?: string | null
+          series_order?: number | null
           slug?: string | null
           tags?: string[] | null
           thumbnail_url?: string | null
           title: string
+          title_choseong?: never
           updated_at?: string
           user_id: string
           views_count?: number | null
         }
         Update: {
+          comments_count?: number
           content?: string
           created_at?: string
           id?: string
           is_public?: boolean | null
+          likes_count?: number
+          publish_at?: string | null
+          series_id?: string | null
+          series_order?: number | null
           slug?: string | null
           tags?: string[] | null
           thumbnail_url?: string | null
           title?: string
+          title_choseong?: never
           updated_at?: string
           user_id?: string
           views_count?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "posts_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -188,12 +510,259 @@ export type Database = {
         }
         Relationships: []
       }
+      reading_list_items: {
+        Row: {
+          created_at: string
+          post_id: string
+          reading_list_id: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          reading_list_id: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          reading_list_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_list_items_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reading_list_items_reading_list_id_fkey"
+            columns: ["reading_list_id"]
+            isOneToOne: false
+            referencedRelation: "reading_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_lists: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_public: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recent_searches: {
+        Row: {
+          query: string
+          searched_at: string
+          user_id: string
+        }
+        Insert: {
+          query: string
+          searched_at?: string
+          user_id: string
+        }
+        Update: {
+          query?: string
+          searched_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recent_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tag_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          tag: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          tag: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          tag?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      adjust_ancestor_replies_count: {
+        Args: { p_delta: number; p_parent_id: string }
+        Returns: undefined
+      }
+      create_notification: {
+        Args: {
+          p_actor_id: string
+          p_comment_id?: string
+          p_post_id?: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      get_author_stats: {
+        Args: { p_user_id: string }
+        Returns: {
+          likes_count: number
+          posts_count: number
+          views_count: number
+        }[]
+      }
+      get_author_tag_counts: {
+        Args: { p_limit?: number; p_user_id: string }
+        Returns: {
+          post_count: number
+          tag: string
+        }[]
+      }
+      get_comment_path: {
+        Args: { p_comment_id: string }
+        Returns: {
+          depth: number
+          id: string
+          parent_id: string | null
+        }[]
+      }
+      get_popular_posts: {
+        Args: {
+          p_author_ids?: string[]
+          p_gravity?: number
+          p_period?: string
+          p_tag?: string | null
+          p_trending?: boolean
+        }
+        Returns: Database["public"]["Tables"]["posts"]["Row"][]
+      }
+      get_public_email: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      get_tag_counts: {
+        Args: never
+        Returns: {
+          post_count: number
+          tag: string
+        }[]
+      }
+      normalize_series_order: {
+        Args: { p_series_id: string }
+        Returns: undefined
+      }
+      normalize_tag: {
+        Args: { p_tag: string }
+        Returns: string
+      }
+      normalize_tags: {
+        Args: { p_tags: string[] }
+        Returns: string[]
+      }
+      post_popularity_score: {
+        Args: { p_comments_count: number; p_likes_count: number; p_views_count: number }
+        Returns: number
+      }
+      post_search_vector: {
+        Args: { p_content: string; p_tags: string[]; p_title: string }
+        Returns: unknown
+      }
+      publish_scheduled_posts: {
+        Args: never
+        Returns: number
+      }
+      search_posts: {
+        Args: {
+          p_author?: string | null
+          p_from?: string | null
+          p_has_thumbnail?: boolean
+          p_query?: string
+          p_sort?: string
+          p_tags?: string[] | null
+          p_to?: string | null
+        }
+        Returns: Database["public"]["Tables"]["posts"]["Row"][]
+      }
+      set_post_series: {
+        Args: { p_position?: number; p_post_id: string; p_series_id: string | null }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,37 @@
+-- 게시글 임시저장(자동 저장) 테이블
+-- post_id가 null이면 새 글 초안, 값이 있으면 해당 글의 수정 중 초안
+create table if not exists public.post_drafts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  post_id uuid references public.posts (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  tags text[] not null default '{}',
+  thumbnail_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- 글 하나당 수정 초안은 하나 (post_id가 null인 새 글 초안은 여러 개 가능)
+  unique (user_id, post_id)
+);
+
+create index if not exists post_drafts_user_id_updated_at_idx
+  on public.post_drafts (user_id, updated_at desc);
+
+alter table public.post_drafts enable row level security;
+
+create policy "Users can view their own drafts"
+  on public.post_drafts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own drafts"
+  on public.post_drafts for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own drafts"
+  on public.post_drafts for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own drafts"
+  on public.post_drafts for delete
+  using (auth.uid() = user_id);
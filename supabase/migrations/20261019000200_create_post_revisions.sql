@@ -0,0 +1,64 @@
+-- 게시글 수정 기록 테이블
+-- posts에 저장될 때마다 트리거로 당시 내용을 한 건씩 기록
+create table if not exists public.post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  title text not null,
+  content text not null,
+  tags text[],
+  thumbnail_url text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_revisions_post_id_created_at_idx
+  on public.post_revisions (post_id, created_at desc);
+
+alter table public.post_revisions enable row level security;
+
+-- 글 작성자만 수정 기록 조회 가능 (기록 추가는 트리거에서만)
+create policy "Authors can view revisions of their posts"
+  on public.post_revisions for select
+  using (
+    exists (
+      select 1 from public.posts
+      where posts.id = post_revisions.post_id
+        and posts.user_id = auth.uid()
+    )
+  );
+
+create or replace function public.record_post_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- 내용과 관계없는 변경(조회수 등)은 기록하지 않음
+  if tg_op = 'UPDATE'
+    and new.title is not distinct from old.title
+    and new.content is not distinct from old.content
+    and new.tags is not distinct from old.tags
+    and new.thumbnail_url is not distinct from old.thumbnail_url then
+    return new;
+  end if;
+
+  insert into public.post_revisions (post_id, user_id, title, content, tags, thumbnail_url)
+  values (new.id, coalesce(auth.uid(), new.user_id), new.title, new.content, new.tags, new.thumbnail_url);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_post_revision on public.posts;
+create trigger record_post_revision
+  after insert or update on public.posts
+  for each row execute function public.record_post_revision();
+
+-- 기존 글은 현재 내용을 첫 번째 기록으로 저장
+insert into public.post_revisions (post_id, user_id, title, content, tags, thumbnail_url, created_at)
+select id, user_id, title, content, tags, thumbnail_url, updated_at
+from public.posts
+where not exists (
+  select 1 from public.post_revisions where post_revisions.post_id = posts.id
+);
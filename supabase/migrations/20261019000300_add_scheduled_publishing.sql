@@ -0,0 +1,41 @@
+-- 예약 발행: publish_at 시각까지 비공개로 유지하다가 자동으로 공개
+alter table public.posts
+  add column if not exists publish_at timestamptz;
+
+create index if not exists posts_publish_at_idx
+  on public.posts (publish_at)
+  where publish_at is not null;
+
+-- 예약 시간이 지난 글을 공개로 전환 (작성일은 예약 시간으로 맞춤)
+create or replace function public.publish_scheduled_posts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  published_count integer;
+begin
+  update public.posts
+  set is_public = true,
+      created_at = publish_at,
+      publish_at = null
+  where publish_at is not null
+    and publish_at <= now();
+
+  get diagnostics published_count = row_count;
+  return published_count;
+end;
+$$;
+
+-- pg_cron(소유자 권한)에서만 실행
+revoke execute on function public.publish_scheduled_posts() from public, anon, authenticated;
+
+-- 1분마다 예약 글 발행
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$select public.publish_scheduled_posts()$$
+);
@@ -0,0 +1,154 @@
+-- 시리즈: 작성자가 묶은 순서 있는 글 모음
+create table if not exists public.series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  title text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists series_user_id_idx
+  on public.series (user_id, created_at desc);
+
+alter table public.series enable row level security;
+
+create policy "Series are viewable by everyone"
+  on public.series for select
+  using (true);
+
+create policy "Users can create their own series"
+  on public.series for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own series"
+  on public.series for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own series"
+  on public.series for delete
+  using (auth.uid() = user_id);
+
+-- 글은 최대 하나의 시리즈에 속하며 series_order(1부터)로 순서 지정
+alter table public.posts
+  add column if not exists series_id uuid references public.series (id) on delete set null,
+  add column if not exists series_order integer;
+
+create index if not exists posts_series_id_order_idx
+  on public.posts (series_id, series_order)
+  where series_id is not null;
+
+-- 글은 작성자 본인의 시리즈에만 넣을 수 있음 (posts를 직접 수정해도 다른 사람 시리즈에 끼워 넣지 못하도록)
+create or replace function public.check_post_series_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.series_id is not null
+    and not exists (
+      select 1 from public.series where id = new.series_id and user_id = new.user_id
+    ) then
+    raise exception 'series not found';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_check_series_owner on public.posts;
+create trigger posts_check_series_owner
+  before insert or update of series_id, user_id on public.posts
+  for each row execute function public.check_post_series_owner();
+
+-- 시리즈 순서를 1..n으로 다시 매김
+create or replace function public.normalize_series_order(p_series_id uuid)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  with ordered as (
+    select id, row_number() over (order by series_order nulls last, created_at) as position
+    from public.posts
+    where series_id = p_series_id
+  )
+  update public.posts p
+  set series_order = ordered.position
+  from ordered
+  where p.id = ordered.id
+    and p.series_order is distinct from ordered.position;
+$$;
+
+-- 글을 시리즈의 지정한 위치(1부터)에 넣거나 시리즈에서 제외 (p_series_id가 null)
+-- 같은 시리즈 안에서 위치만 바꾸는 데에도 사용
+create or replace function public.set_post_series(
+  p_post_id uuid,
+  p_series_id uuid,
+  p_position integer default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  previous_series_id uuid;
+  series_size integer;
+begin
+  select series_id into previous_series_id
+  from public.posts
+  where id = p_post_id
+    and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'post not found';
+  end if;
+
+  if p_series_id is not null and not exists (
+    select 1 from public.series where id = p_series_id and user_id = auth.uid()
+  ) then
+    raise exception 'series not found';
+  end if;
+
+  update public.posts
+  set series_id = p_series_id,
+      series_order = null
+  where id = p_post_id;
+
+  if previous_series_id is not null and previous_series_id is distinct from p_series_id then
+    perform public.normalize_series_order(previous_series_id);
+  end if;
+
+  if p_series_id is null then
+    return;
+  end if;
+
+  perform public.normalize_series_order(p_series_id);
+
+  select count(*) into series_size
+  from public.posts
+  where series_id = p_series_id
+    and id <> p_post_id;
+
+  -- 위치를 지정하지 않으면 맨 뒤에 추가
+  p_position := least(greatest(coalesce(p_position, series_size + 1), 1), series_size + 1);
+
+  update public.posts
+  set series_order = series_order + 1
+  where series_id = p_series_id
+    and id <> p_post_id
+    and series_order >= p_position;
+
+  update public.posts
+  set series_order = p_position
+  where id = p_post_id;
+
+  update public.series
+  set updated_at = now()
+  where id = p_series_id;
+end;
+$$;
@@ -0,0 +1,71 @@
+-- 작성자별 slug 주소: /@username/slug
+-- 기존에 같은 작성자 안에서 겹치는 slug는 id 앞부분을 붙여 정리
+with duplicates as (
+  select id, row_number() over (partition by user_id, slug order by created_at) as position
+  from public.posts
+  where slug is not null
+)
+update public.posts p
+set slug = p.slug || '-' || left(p.id::text, 8)
+from duplicates
+where p.id = duplicates.id
+  and duplicates.position > 1;
+
+create unique index if not exists posts_user_id_slug_key
+  on public.posts (user_id, slug)
+  where slug is not null;
+
+-- 예전 slug → 글 (slug가 바뀐 뒤에도 옛 주소에서 새 주소로 이동)
+create table if not exists public.post_slug_history (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  slug text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, slug)
+);
+
+alter table public.post_slug_history enable row level security;
+
+-- 공개 글이나 자신의 글 기록만 (비공개 글의 예전 주소가 드러나지 않도록)
+create policy "Slug history is viewable for visible posts"
+  on public.post_slug_history for select
+  using (
+    exists (
+      select 1 from public.posts p
+      where p.id = post_id
+        and (p.is_public = true or p.user_id = auth.uid())
+    )
+  );
+
+-- slug가 바뀌면 이전 slug를 기록 (작성자는 기록 테이블에 직접 쓰지 않음)
+create or replace function public.record_post_slug_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and old.slug is not null and old.slug is distinct from new.slug then
+    insert into public.post_slug_history (post_id, user_id, slug)
+    values (old.id, old.user_id, old.slug)
+    on conflict (user_id, slug)
+    do update set post_id = excluded.post_id, created_at = now();
+  end if;
+
+  -- 새 slug가 예전에 다른 글의 주소였다면 기록에서 제거
+  if new.slug is not null then
+    delete from public.post_slug_history
+    where user_id = new.user_id
+      and slug = new.slug;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_record_slug_change on public.posts;
+create trigger posts_record_slug_change
+  after insert or update of slug on public.posts
+  for each row
+  execute function public.record_post_slug_change();
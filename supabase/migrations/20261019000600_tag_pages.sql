@@ -0,0 +1,22 @@
+-- 태그 페이지: 태그로 글 조회 + 태그별 글 수 집계
+
+-- tags @> array['태그'] 조회용 인덱스
+create index if not exists posts_tags_idx
+  on public.posts using gin (tags);
+
+-- 공개 글의 태그별 글 수 (많은 순)
+create or replace function public.get_tag_counts()
+returns table (tag text, post_count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*) as post_count
+  from public.posts p
+  cross join lateral unnest(p.tags) as t(tag)
+  where p.is_public = true
+    and t.tag <> ''
+  group by t.tag
+  order by post_count desc, t.tag asc;
+$$;
+
+grant execute on function public.get_tag_counts() to anon, authenticated;
@@ -0,0 +1,106 @@
+-- 태그 정규화: 대소문자/공백 통일 + 동의어(별칭) 병합
+-- 클라이언트(tagUtils.normalizeTag)와 같은 규칙을 DB에서도 적용해 직접 저장된 값도 정리
+
+-- 별칭 → 대표 태그 (예: reactjs, 리액트 → react)
+create table if not exists public.tag_aliases (
+  alias text primary key,
+  tag text not null,
+  created_at timestamptz not null default now(),
+  check (alias <> tag)
+);
+
+alter table public.tag_aliases enable row level security;
+
+-- 별칭은 관리자가 SQL로만 관리
+create policy "Tag aliases are viewable by everyone"
+  on public.tag_aliases for select
+  using (true);
+
+insert into public.tag_aliases (alias, tag) values
+  ('reactjs', 'react'),
+  ('react.js', 'react'),
+  ('리액트', 'react'),
+  ('js', 'javascript'),
+  ('자바스크립트', 'javascript'),
+  ('ts', 'typescript'),
+  ('타입스크립트', 'typescript'),
+  ('nodejs', 'node.js'),
+  ('node', 'node.js'),
+  ('노드', 'node.js'),
+  ('vuejs', 'vue'),
+  ('vue.js', 'vue'),
+  ('nextjs', 'next.js'),
+  ('postgres', 'postgresql'),
+  ('파이썬', 'python')
+on conflict (alias) do nothing;
+
+-- 태그 하나 정규화: 앞의 # 제거, 앞뒤 공백 제거, 연속 공백 하나로, 소문자
+create or replace function public.normalize_tag(p_tag text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(btrim(regexp_replace(btrim(normalize(p_tag, NFC)), '^#+', '')), '\s+', ' ', 'g'));
+$$;
+
+-- 태그 배열 정규화: 정규화 + 별칭 병합 + 중복 제거 (처음 나온 순서 유지)
+create or replace function public.normalize_tags(p_tags text[])
+returns text[]
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(array_agg(deduped.tag order by deduped.position), '{}')
+  from (
+    select coalesce(a.tag, t.tag) as tag, min(t.position) as position
+    from (
+      select public.normalize_tag(u.raw) as tag, u.position
+      from unnest(p_tags) with ordinality as u(raw, position)
+    ) t
+    left join public.tag_aliases a on a.alias = t.tag
+    where t.tag <> ''
+    group by coalesce(a.tag, t.tag)
+  ) deduped;
+$$;
+
+create or replace function public.normalize_post_tags()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.tags is not null then
+    new.tags := public.normalize_tags(new.tags);
+    -- 긴 태그는 자르지 않고 거부 (태그 하나 최대 30자)
+    if exists (select 1 from unnest(new.tags) as t(tag) where char_length(t.tag) > 30) then
+      raise exception 'tag too long';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_normalize_tags on public.posts;
+create trigger posts_normalize_tags
+  before insert or update of tags on public.posts
+  for each row execute function public.normalize_post_tags();
+
+-- 기존 글 정리 (태그 정리만으로 수정 기록이 남지 않도록 기록 트리거는 잠시 끔)
+alter table public.posts disable trigger record_post_revision;
+
+-- 30자가 넘는 예전 태그는 이번에 한해 30자로 줄임
+update public.posts
+set tags = public.normalize_tags(
+  array(
+    select left(public.normalize_tag(t.tag), 30)
+    from unnest(tags) with ordinality as t(tag, position)
+    order by t.position
+  )
+)
+where tags is not null
+  and (
+    tags is distinct from public.normalize_tags(tags)
+    or exists (select 1 from unnest(tags) as t(tag) where char_length(public.normalize_tag(t.tag)) > 30)
+  );
+
+alter table public.posts enable trigger record_post_revision;
@@ -0,0 +1,26 @@
+-- 작성자 팔로우
+create table if not exists public.follows (
+  follower_id uuid not null references public.profiles (id) on delete cascade,
+  following_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, following_id),
+  check (follower_id <> following_id)
+);
+
+-- 팔로워 목록/수 조회용 (팔로잉 쪽은 기본 키로 조회)
+create index if not exists follows_following_id_idx
+  on public.follows (following_id, created_at desc);
+
+alter table public.follows enable row level security;
+
+create policy "Follows are viewable by everyone"
+  on public.follows for select
+  using (true);
+
+create policy "Users can follow others"
+  on public.follows for insert
+  with check (auth.uid() = follower_id);
+
+create policy "Users can unfollow"
+  on public.follows for delete
+  using (auth.uid() = follower_id);
@@ -0,0 +1,118 @@
+-- 북마크: 좋아요와 별개로 "나중에 읽기" 저장 (본인만 볼 수 있음)
+create table if not exists public.bookmarks (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, post_id)
+);
+
+create index if not exists bookmarks_user_id_created_at_idx
+  on public.bookmarks (user_id, created_at desc);
+
+alter table public.bookmarks enable row level security;
+
+create policy "Users can view their own bookmarks"
+  on public.bookmarks for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own bookmarks"
+  on public.bookmarks for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own bookmarks"
+  on public.bookmarks for delete
+  using (auth.uid() = user_id);
+
+-- 읽기 목록: 사용자가 이름을 붙여 만드는 글 모음 (공개/비공개)
+create table if not exists public.reading_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 50),
+  description text,
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.reading_lists enable row level security;
+
+create policy "Public reading lists are viewable by everyone"
+  on public.reading_lists for select
+  using (is_public or auth.uid() = user_id);
+
+create policy "Users can create their own reading lists"
+  on public.reading_lists for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own reading lists"
+  on public.reading_lists for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own reading lists"
+  on public.reading_lists for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.reading_list_items (
+  reading_list_id uuid not null references public.reading_lists (id) on delete cascade,
+  post_id uuid not null references public.posts (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (reading_list_id, post_id)
+);
+
+create index if not exists reading_list_items_post_id_idx
+  on public.reading_list_items (post_id);
+
+alter table public.reading_list_items enable row level security;
+
+-- 목록을 볼 수 있으면 항목도 볼 수 있음
+create policy "Reading list items follow list visibility"
+  on public.reading_list_items for select
+  using (
+    exists (
+      select 1 from public.reading_lists
+      where reading_lists.id = reading_list_items.reading_list_id
+        and (reading_lists.is_public or reading_lists.user_id = auth.uid())
+    )
+  );
+
+create policy "Owners can add reading list items"
+  on public.reading_list_items for insert
+  with check (
+    exists (
+      select 1 from public.reading_lists
+      where reading_lists.id = reading_list_items.reading_list_id
+        and reading_lists.user_id = auth.uid()
+    )
+  );
+
+create policy "Owners can remove reading list items"
+  on public.reading_list_items for delete
+  using (
+    exists (
+      select 1 from public.reading_lists
+      where reading_lists.id = reading_list_items.reading_list_id
+        and reading_lists.user_id = auth.uid()
+    )
+  );
+
+-- 항목이 바뀌면 목록의 updated_at 갱신 (최근 사용한 목록이 위로)
+create or replace function public.touch_reading_list()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.reading_lists
+  set updated_at = now()
+  where id = coalesce(new.reading_list_id, old.reading_list_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists reading_list_items_touch_list on public.reading_list_items;
+create trigger reading_list_items_touch_list
+  after insert or delete on public.reading_list_items
+  for each row execute function public.touch_reading_list();
@@ -0,0 +1,239 @@
+-- 알림: 좋아요/댓글/답글/댓글 좋아요/팔로우가 생기면 트리거로 받는 사람에게 알림 생성
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  -- 알림을 받는 사람
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- 알림을 발생시킨 사람
+  actor_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null check (type in ('post_like', 'post_comment', 'comment_reply', 'comment_like', 'follow')),
+  post_id uuid references public.posts (id) on delete cascade,
+  comment_id uuid references public.post_comments (id) on delete cascade,
+  is_read boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_user_id_unread_idx
+  on public.notifications (user_id)
+  where not is_read;
+
+alter table public.notifications enable row level security;
+
+-- 알림은 트리거만 만들고, 받는 사람은 읽음 처리/삭제만 가능
+create policy "Users can view their own notifications"
+  on public.notifications for select
+  using (auth.uid() = user_id);
+
+create policy "Users can update their own notifications"
+  on public.notifications for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own notifications"
+  on public.notifications for delete
+  using (auth.uid() = user_id);
+
+-- 받는 사람이 바꿀 수 있는 열은 읽음 여부뿐
+revoke update on public.notifications from anon, authenticated;
+grant update (is_read) on public.notifications to authenticated;
+
+-- 알림 종류별 수신 설정 (행이 없으면 모두 받음)
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  post_like boolean not null default true,
+  post_comment boolean not null default true,
+  comment_reply boolean not null default true,
+  comment_like boolean not null default true,
+  follow boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can view their own notification preferences"
+  on public.notification_preferences for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own notification preferences"
+  on public.notification_preferences for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own notification preferences"
+  on public.notification_preferences for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- 자기 자신에게는 보내지 않고, 꺼 둔 종류는 건너뜀
+create or replace function public.create_notification(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_post_id uuid default null,
+  p_comment_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  enabled boolean;
+begin
+  if p_user_id is null or p_user_id = p_actor_id then
+    return;
+  end if;
+
+  select case p_type
+      when 'post_like' then post_like
+      when 'post_comment' then post_comment
+      when 'comment_reply' then comment_reply
+      when 'comment_like' then comment_like
+      when 'follow' then follow
+    end
+  into enabled
+  from public.notification_preferences
+  where user_id = p_user_id;
+
+  if coalesce(enabled, true) then
+    insert into public.notifications (user_id, actor_id, type, post_id, comment_id)
+    values (p_user_id, p_actor_id, p_type, p_post_id, p_comment_id);
+  end if;
+end;
+$$;
+
+revoke execute on function public.create_notification(uuid, uuid, text, uuid, uuid) from public, anon, authenticated;
+
+-- 글 좋아요
+create or replace function public.notify_post_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.create_notification(
+    (select user_id from public.posts where id = new.post_id),
+    new.user_id,
+    'post_like',
+    new.post_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists post_likes_notify on public.post_likes;
+create trigger post_likes_notify
+  after insert on public.post_likes
+  for each row execute function public.notify_post_like();
+
+-- 댓글/답글: 글 작성자에게 댓글 알림, 부모 댓글 작성자에게 답글 알림 (같은 사람이면 답글 알림만)
+create or replace function public.notify_post_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post_author uuid;
+  parent_author uuid;
+begin
+  select user_id into post_author from public.posts where id = new.post_id;
+
+  if new.parent_id is not null then
+    select user_id into parent_author from public.post_comments where id = new.parent_id;
+    perform public.create_notification(parent_author, new.user_id, 'comment_reply', new.post_id, new.id);
+  end if;
+
+  if parent_author is distinct from post_author then
+    perform public.create_notification(post_author, new.user_id, 'post_comment', new.post_id, new.id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists post_comments_notify on public.post_comments;
+create trigger post_comments_notify
+  after insert on public.post_comments
+  for each row execute function public.notify_post_comment();
+
+-- 댓글 좋아요
+create or replace function public.notify_comment_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  comment_row public.post_comments%rowtype;
+begin
+  select * into comment_row from public.post_comments where id = new.comment_id;
+  perform public.create_notification(comment_row.user_id, new.user_id, 'comment_like', comment_row.post_id, new.comment_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists comment_likes_notify on public.comment_likes;
+create trigger comment_likes_notify
+  after insert on public.comment_likes
+  for each row execute function public.notify_comment_like();
+
+-- 팔로우
+create or replace function public.notify_follow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.create_notification(new.following_id, new.follower_id, 'follow');
+  return new;
+end;
+$$;
+
+drop trigger if exists follows_notify on public.follows;
+create trigger follows_notify
+  after insert on public.follows
+  for each row execute function public.notify_follow();
+
+-- 좋아요/팔로우를 취소하면 아직 읽지 않은 알림도 지움 (눌렀다 취소를 반복해도 알림이 쌓이지 않도록)
+create or replace function public.retract_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'post_likes' then
+    delete from public.notifications
+    where type = 'post_like' and actor_id = old.user_id and post_id = old.post_id and not is_read;
+  elsif tg_table_name = 'comment_likes' then
+    delete from public.notifications
+    where type = 'comment_like' and actor_id = old.user_id and comment_id = old.comment_id and not is_read;
+  elsif tg_table_name = 'follows' then
+    delete from public.notifications
+    where type = 'follow' and actor_id = old.follower_id and user_id = old.following_id and not is_read;
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists post_likes_retract_notification on public.post_likes;
+create trigger post_likes_retract_notification
+  after delete on public.post_likes
+  for each row execute function public.retract_notification();
+
+drop trigger if exists comment_likes_retract_notification on public.comment_likes;
+create trigger comment_likes_retract_notification
+  after delete on public.comment_likes
+  for each row execute function public.retract_notification();
+
+drop trigger if exists follows_retract_notification on public.follows;
+create trigger follows_retract_notification
+  after delete on public.follows
+  for each row execute function public.retract_notification();
+
+-- 읽지 않은 알림 수를 Navbar에 실시간으로 반영
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,5 @@
+-- 댓글 실시간 반영
+-- 게시글 상세 화면에서 다른 사용자의 댓글/답글, 수정, 삭제, 댓글 좋아요를 새로고침 없이 반영
+-- (댓글 좋아요는 post_comments.likes_count 갱신으로 함께 전달되므로 comment_likes는 구독하지 않음)
+
+alter publication supabase_realtime add table public.post_comments;
@@ -0,0 +1,153 @@
+-- 좋아요/댓글/답글 수를 글과 댓글 행에 저장
+-- 목록을 불러올 때 행마다 count 쿼리를 보내지 않고 목록 쿼리 한 번으로 함께 받음
+alter table public.posts
+  add column if not exists likes_count integer not null default 0,
+  add column if not exists comments_count integer not null default 0;
+
+alter table public.post_comments
+  add column if not exists likes_count integer not null default 0,
+  add column if not exists replies_count integer not null default 0;
+
+-- 글 좋아요 수
+create or replace function public.update_post_likes_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.posts set likes_count = likes_count + 1 where id = new.post_id;
+  else
+    update public.posts set likes_count = greatest(likes_count - 1, 0) where id = old.post_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists post_likes_update_count on public.post_likes;
+create trigger post_likes_update_count
+  after insert or delete on public.post_likes
+  for each row execute function public.update_post_likes_count();
+
+-- 글의 댓글 수(삭제되지 않은 댓글과 답글)와 댓글의 답글 수(삭제된 답글 포함, 목록에 자리가 남으므로)
+create or replace function public.update_comment_counts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.deleted_at is null then
+      update public.posts set comments_count = comments_count + 1 where id = new.post_id;
+    end if;
+    if new.parent_id is not null then
+      update public.post_comments set replies_count = replies_count + 1 where id = new.parent_id;
+    end if;
+  elsif tg_op = 'DELETE' then
+    if old.deleted_at is null then
+      update public.posts set comments_count = greatest(comments_count - 1, 0) where id = old.post_id;
+    end if;
+    if old.parent_id is not null then
+      update public.post_comments set replies_count = greatest(replies_count - 1, 0) where id = old.parent_id;
+    end if;
+  else
+    -- 소프트 삭제/복구
+    if old.deleted_at is null and new.deleted_at is not null then
+      update public.posts set comments_count = greatest(comments_count - 1, 0) where id = new.post_id;
+    elsif old.deleted_at is not null and new.deleted_at is null then
+      update public.posts set comments_count = comments_count + 1 where id = new.post_id;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists post_comments_update_counts on public.post_comments;
+create trigger post_comments_update_counts
+  after insert or delete or update of deleted_at on public.post_comments
+  for each row execute function public.update_comment_counts();
+
+-- 댓글 좋아요 수
+create or replace function public.update_comment_likes_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.post_comments set likes_count = likes_count + 1 where id = new.comment_id;
+  else
+    update public.post_comments set likes_count = greatest(likes_count - 1, 0) where id = old.comment_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists comment_likes_update_count on public.comment_likes;
+create trigger comment_likes_update_count
+  after insert or delete on public.comment_likes
+  for each row execute function public.update_comment_likes_count();
+
+-- 카운터는 위 트리거로만 바뀜 (작성자가 자기 글/댓글의 수를 직접 넣거나 고치지 못하도록)
+-- 트리거 함수는 security definer라 소유자 권한으로 실행되므로 current_user로 구분
+create or replace function public.protect_count_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_table_name = 'posts' then
+    if tg_op = 'INSERT' then
+      new.likes_count := 0;
+      new.comments_count := 0;
+    else
+      new.likes_count := old.likes_count;
+      new.comments_count := old.comments_count;
+    end if;
+  else
+    if tg_op = 'INSERT' then
+      new.likes_count := 0;
+      new.replies_count := 0;
+    else
+      new.likes_count := old.likes_count;
+      new.replies_count := old.replies_count;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_protect_count_columns on public.posts;
+create trigger posts_protect_count_columns
+  before insert or update on public.posts
+  for each row execute function public.protect_count_columns();
+
+drop trigger if exists post_comments_protect_count_columns on public.post_comments;
+create trigger post_comments_protect_count_columns
+  before insert or update on public.post_comments
+  for each row execute function public.protect_count_columns();
+
+-- 기존 데이터 채우기
+update public.posts p
+set
+  likes_count = (select count(*) from public.post_likes l where l.post_id = p.id),
+  comments_count = (
+    select count(*) from public.post_comments c
+    where c.post_id = p.id and c.deleted_at is null
+  );
+
+update public.post_comments pc
+set
+  likes_count = (select count(*) from public.comment_likes l where l.comment_id = pc.id),
+  replies_count = (select count(*) from public.post_comments r where r.parent_id = pc.id);
@@ -0,0 +1,55 @@
+-- 인기 글 순위를 데이터베이스에서 계산
+-- 페이지를 나눠 불러와도 순서가 이어지도록 정렬까지 서버에서 처리
+
+-- 인기 점수: 좋아요 > 댓글 > 조회수 순으로 가중치
+create or replace function public.post_popularity_score(
+  p_likes_count integer,
+  p_comments_count integer,
+  p_views_count integer
+)
+returns numeric
+language sql
+immutable
+as $$
+  select p_likes_count * 3.0 + p_comments_count * 2.0 + coalesce(p_views_count, 0) * 0.1;
+$$;
+
+-- p_period: 'week' | 'month' | 'all' (작성 시점 기준 기간)
+-- p_trending: 시간이 지날수록 점수를 낮춤 (score / (경과 시간 + 2)^p_gravity)
+-- p_author_ids: 팔로잉 피드처럼 특정 작성자의 글만 볼 때
+-- p_tag: 태그 페이지처럼 특정 태그가 달린 글만 볼 때
+create or replace function public.get_popular_posts(
+  p_period text default 'all',
+  p_trending boolean default false,
+  p_gravity numeric default 1.8,
+  p_author_ids uuid[] default null,
+  p_tag text default null
+)
+returns setof public.posts
+language sql
+stable
+as $$
+  select p.*
+  from public.posts p
+  where p.is_public = true
+    and (p_author_ids is null or p.user_id = any (p_author_ids))
+    and (p_tag is null or p.tags @> array[p_tag])
+    and p.created_at >= case p_period
+      when 'week' then now() - interval '7 days'
+      when 'month' then now() - interval '1 month'
+      else '-infinity'::timestamptz
+    end
+  order by
+    case
+      when p_trending then
+        public.post_popularity_score(p.likes_count, p.comments_count, p.views_count)
+          / power(greatest(extract(epoch from now() - p.created_at) / 3600, 0) + 2, p_gravity)
+      else
+        public.post_popularity_score(p.likes_count, p.comments_count, p.views_count)
+    end desc,
+    p.created_at desc,
+    p.id desc;
+$$;
+
+grant execute on function public.post_popularity_score(integer, integer, integer) to anon, authenticated;
+grant execute on function public.get_popular_posts(text, boolean, numeric, uuid[], text) to anon, authenticated;
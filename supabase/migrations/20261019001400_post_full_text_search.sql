@@ -0,0 +1,75 @@
+-- 글 전문 검색
+-- 제목(A) > 태그(B) > 내용(C) 가중치의 tsvector 인덱스로 찾고 관련도 순으로 정렬
+-- 한국어는 형태소 분석기가 없어 'simple' 설정 + 단어 접두어 검색(리액트 → 리액트를)을 쓰고,
+-- 단어 중간에 걸리는 검색어(스크립트 → 자바스크립트)는 트라이그램 부분 일치로 보완
+create extension if not exists pg_trgm with schema extensions;
+
+-- 인덱스 식으로 쓰기 위해 immutable로 선언 (array_to_string은 stable이지만 text[]에서는 결과가 바뀌지 않음)
+create or replace function public.post_search_vector(p_title text, p_content text, p_tags text[])
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('simple'::regconfig, coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce(array_to_string(p_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce(p_content, '')), 'C');
+$$;
+
+create index if not exists posts_search_vector_idx
+  on public.posts using gin (public.post_search_vector(title, content, tags));
+
+create index if not exists posts_title_trgm_idx
+  on public.posts using gin (title extensions.gin_trgm_ops);
+
+create index if not exists posts_content_trgm_idx
+  on public.posts using gin (content extensions.gin_trgm_ops);
+
+-- 검색어는 문자열 조작 없이 인자로만 받아 처리 (필터 문자열에 끼워 넣지 않음)
+create or replace function public.search_posts(p_query text)
+returns setof public.posts
+language plpgsql
+stable
+set search_path = public, extensions
+as $$
+declare
+  v_query text := btrim(coalesce(p_query, ''));
+  v_tsquery tsquery;
+  v_pattern text;
+begin
+  if v_query = '' then
+    return;
+  end if;
+
+  -- 단어마다 기호를 지우고 접두어 검색으로 묶음 (react hooks → react:* & hooks:*)
+  select to_tsquery('simple', string_agg(word || ':*', ' & '))
+  into v_tsquery
+  from (
+    select regexp_replace(lower(token), '[^[:alnum:]]+', '', 'g') as word
+    from regexp_split_to_table(v_query, '\s+') as token
+  ) words
+  where word <> '';
+
+  -- LIKE 특수문자(\ % _)는 그대로 찾도록 이스케이프
+  v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  return query
+  select p.*
+  from public.posts p
+  where p.is_public = true
+    and (
+      public.post_search_vector(p.title, p.content, p.tags) @@ v_tsquery
+      or p.title ilike v_pattern
+      or p.content ilike v_pattern
+    )
+  order by
+    coalesce(ts_rank('{0.1, 0.2, 0.4, 1.0}', public.post_search_vector(p.title, p.content, p.tags), v_tsquery), 0)
+      + case when p.title ilike v_pattern then 0.5 else 0 end
+      desc,
+    p.created_at desc,
+    p.id desc;
+end;
+$$;
+
+grant execute on function public.post_search_vector(text, text, text[]) to anon, authenticated;
+grant execute on function public.search_posts(text) to anon, authenticated;
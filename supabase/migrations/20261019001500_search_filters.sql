@@ -0,0 +1,79 @@
+-- 검색 필터(태그, 작성자, 기간, 대표 이미지)와 정렬
+-- 인자가 바뀌므로 이전 함수는 지우고 새로 만듦 (오버로드가 남으면 호출이 모호해짐)
+drop function if exists public.search_posts(text);
+
+-- p_query가 비어 있으면 필터만으로 검색
+-- p_tags: 모두 달린 글만 (AND), p_author: 작성자 닉네임
+-- p_from, p_to: 작성일 기간 (한국 시간 기준 날짜, p_to 당일 포함)
+-- p_sort: 'relevance' | 'latest' | 'likes' | 'views'
+create or replace function public.search_posts(
+  p_query text default '',
+  p_tags text[] default null,
+  p_author text default null,
+  p_from date default null,
+  p_to date default null,
+  p_has_thumbnail boolean default false,
+  p_sort text default 'relevance'
+)
+returns setof public.posts
+language plpgsql
+stable
+set search_path = public, extensions
+as $$
+declare
+  v_query text := btrim(coalesce(p_query, ''));
+  v_tags text[] := public.normalize_tags(coalesce(p_tags, '{}'));
+  v_author_id uuid;
+  v_tsquery tsquery;
+  v_pattern text;
+begin
+  if nullif(btrim(p_author), '') is not null then
+    select id into v_author_id from public.profiles where username = btrim(p_author);
+    if v_author_id is null then
+      return;
+    end if;
+  end if;
+
+  if v_query <> '' then
+    -- 단어마다 기호를 지우고 접두어 검색으로 묶음 (react hooks → react:* & hooks:*)
+    select to_tsquery('simple', string_agg(word || ':*', ' & '))
+    into v_tsquery
+    from (
+      select regexp_replace(lower(token), '[^[:alnum:]]+', '', 'g') as word
+      from regexp_split_to_table(v_query, '\s+') as token
+    ) words
+    where word <> '';
+
+    -- LIKE 특수문자(\ % _)는 그대로 찾도록 이스케이프
+    v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  end if;
+
+  return query
+  select p.*
+  from public.posts p
+  where p.is_public = true
+    and (
+      v_query = ''
+      or public.post_search_vector(p.title, p.content, p.tags) @@ v_tsquery
+      or p.title ilike v_pattern
+      or p.content ilike v_pattern
+    )
+    and (cardinality(v_tags) = 0 or p.tags @> v_tags)
+    and (v_author_id is null or p.user_id = v_author_id)
+    -- 날짜는 세션 시간대(UTC)가 아니라 한국 시간 자정 기준으로 바꿔 비교
+    and (p_from is null or p.created_at >= p_from::timestamp at time zone 'Asia/Seoul')
+    and (p_to is null or p.created_at < (p_to + 1)::timestamp at time zone 'Asia/Seoul')
+    and (not coalesce(p_has_thumbnail, false) or nullif(p.thumbnail_url, '') is not null)
+  order by
+    case when p_sort = 'likes' then p.likes_count end desc,
+    case when p_sort = 'views' then coalesce(p.views_count, 0) end desc,
+    case when p_sort = 'relevance' and v_query <> '' then
+      coalesce(ts_rank('{0.1, 0.2, 0.4, 1.0}', public.post_search_vector(p.title, p.content, p.tags), v_tsquery), 0)
+        + case when p.title ilike v_pattern then 0.5 else 0 end
+    end desc,
+    p.created_at desc,
+    p.id desc;
+end;
+$$;
+
+grant execute on function public.search_posts(text, text[], text, date, date, boolean, text) to anon, authenticated;
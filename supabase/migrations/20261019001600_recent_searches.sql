@@ -0,0 +1,54 @@
+-- 최근 검색어 (로그인한 사용자는 계정에 저장해 기기 간 동기화)
+create table if not exists public.recent_searches (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  query text not null check (char_length(query) between 1 and 100),
+  searched_at timestamptz not null default now(),
+  primary key (user_id, query)
+);
+
+create index if not exists recent_searches_user_id_searched_at_idx
+  on public.recent_searches (user_id, searched_at desc);
+
+alter table public.recent_searches enable row level security;
+
+create policy "Users can view own recent searches"
+  on public.recent_searches for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add own recent searches"
+  on public.recent_searches for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own recent searches"
+  on public.recent_searches for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete own recent searches"
+  on public.recent_searches for delete
+  using (auth.uid() = user_id);
+
+-- 사용자마다 최근 10개만 남김
+create or replace function public.prune_recent_searches()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.recent_searches
+  where user_id = new.user_id
+    and query in (
+      select query from public.recent_searches
+      where user_id = new.user_id
+      order by searched_at desc
+      offset 10
+    );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists recent_searches_prune on public.recent_searches;
+create trigger recent_searches_prune
+  after insert or update on public.recent_searches
+  for each row execute function public.prune_recent_searches();
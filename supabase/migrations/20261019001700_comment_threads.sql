@@ -0,0 +1,76 @@
+-- 답글에 답글을 계속 달 수 있도록 (깊이 제한 없음)
+-- post_comments.replies_count는 바로 아래 답글이 아니라 하위 스레드 전체의 답글 수
+
+-- 답글이 생기거나 없어질 때 원 댓글부터 최상위 댓글까지 모두 반영
+create or replace function public.adjust_ancestor_replies_count(p_parent_id uuid, p_delta integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  with recursive ancestors (id, parent_id) as (
+    select id, parent_id from public.post_comments where id = p_parent_id
+    union all
+    select c.id, c.parent_id
+    from public.post_comments c
+    join ancestors a on c.id = a.parent_id
+  )
+  update public.post_comments c
+  set replies_count = greatest(c.replies_count + p_delta, 0)
+  where c.id in (select id from ancestors);
+$$;
+
+revoke execute on function public.adjust_ancestor_replies_count(uuid, integer) from public, anon, authenticated;
+
+-- 글의 댓글 수(삭제되지 않은 댓글과 답글)와 댓글의 답글 수(삭제된 답글 포함, 목록에 자리가 남으므로)
+create or replace function public.update_comment_counts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.deleted_at is null then
+      update public.posts set comments_count = comments_count + 1 where id = new.post_id;
+    end if;
+    if new.parent_id is not null then
+      perform public.adjust_ancestor_replies_count(new.parent_id, 1);
+    end if;
+  elsif tg_op = 'DELETE' then
+    if old.deleted_at is null then
+      update public.posts set comments_count = greatest(comments_count - 1, 0) where id = old.post_id;
+    end if;
+    -- 하위 답글이 함께 지워지면 그 답글들의 조상 경로는 이미 끊겨 있으므로 여기서 한 번에 뺌
+    if old.parent_id is not null then
+      perform public.adjust_ancestor_replies_count(old.parent_id, -(1 + old.replies_count));
+    end if;
+  else
+    -- 소프트 삭제/복구
+    if old.deleted_at is null and new.deleted_at is not null then
+      update public.posts set comments_count = greatest(comments_count - 1, 0) where id = new.post_id;
+    elsif old.deleted_at is not null and new.deleted_at is null then
+      update public.posts set comments_count = comments_count + 1 where id = new.post_id;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+-- 기존 데이터 채우기 (하위 스레드 전체 답글 수)
+with recursive descendants (ancestor_id, id) as (
+  select parent_id, id from public.post_comments where parent_id is not null
+  union all
+  select d.ancestor_id, c.id
+  from public.post_comments c
+  join descendants d on c.parent_id = d.id
+)
+update public.post_comments pc
+set replies_count = coalesce(
+  (select count(*) from descendants d where d.ancestor_id = pc.id),
+  0
+);
+
+create index if not exists post_comments_parent_id_created_at_idx
+  on public.post_comments (parent_id, created_at);
@@ -0,0 +1,30 @@
+-- 댓글 고유 주소(#comment-<id>)로 들어왔을 때 접혀 있는 답글을 펼치기 위한 경로
+-- 최상위 댓글부터 해당 댓글까지 순서대로 (depth 0 = 최상위 댓글)
+create or replace function public.get_comment_path(p_comment_id uuid)
+returns table (id uuid, parent_id uuid, depth integer)
+language sql
+stable
+set search_path = public
+as $$
+  with recursive path (id, parent_id, distance) as (
+    select c.id, c.parent_id, 0
+    from public.post_comments c
+    where c.id = p_comment_id
+    union all
+    select c.id, c.parent_id, p.distance + 1
+    from public.post_comments c
+    join path p on c.id = p.parent_id
+  )
+  select path.id, path.parent_id, (max(distance) over () - distance)::integer as depth
+  from path
+  order by distance desc;
+$$;
+
+-- 좋아요순/답글순 정렬용
+create index if not exists post_comments_post_id_likes_count_idx
+  on public.post_comments (post_id, likes_count desc)
+  where parent_id is null;
+
+create index if not exists post_comments_post_id_replies_count_idx
+  on public.post_comments (post_id, replies_count desc)
+  where parent_id is null;
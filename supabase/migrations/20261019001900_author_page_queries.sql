@@ -0,0 +1,49 @@
+-- 작성자 페이지용 조회
+-- 글 전체를 받아 브라우저에서 합치지 않고 통계와 태그 구름을 데이터베이스에서 계산
+
+-- 이메일은 작성자가 공개한 경우에만 (비공개면 null)
+create or replace function public.get_public_email(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select email from public.profiles where id = p_user_id and email_public = true;
+$$;
+
+-- 공개 글 수, 받은 좋아요 수, 총 조회수
+create or replace function public.get_author_stats(p_user_id uuid)
+returns table (posts_count bigint, likes_count bigint, views_count bigint)
+language sql
+stable
+as $$
+  select
+    count(*) as posts_count,
+    coalesce(sum(p.likes_count), 0) as likes_count,
+    coalesce(sum(p.views_count), 0) as views_count
+  from public.posts p
+  where p.user_id = p_user_id
+    and p.is_public = true;
+$$;
+
+-- 작성자가 많이 쓴 태그 (공개 글 기준)
+create or replace function public.get_author_tag_counts(p_user_id uuid, p_limit integer default 30)
+returns table (tag text, post_count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*) as post_count
+  from public.posts p
+  cross join lateral unnest(p.tags) as t(tag)
+  where p.user_id = p_user_id
+    and p.is_public = true
+    and t.tag <> ''
+  group by t.tag
+  order by post_count desc, t.tag asc
+  limit p_limit;
+$$;
+
+grant execute on function public.get_public_email(uuid) to anon, authenticated;
+grant execute on function public.get_author_stats(uuid) to anon, authenticated;
+grant execute on function public.get_author_tag_counts(uuid, integer) to anon, authenticated;
@@ -0,0 +1,107 @@
+-- 초성 검색 (ㅎㄱ → 한글)
+-- 제목의 한글 음절을 초성으로 바꾼 컬럼을 저장해 두고 trigram 인덱스로 부분 일치 검색
+
+-- 한글 음절은 초성으로, 나머지 글자는 그대로
+create or replace function public.hangul_choseong(p_text text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select string_agg(
+    case
+      when ascii(t.ch) between 44032 and 55203 then
+        substr('ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ', (ascii(t.ch) - 44032) / 588 + 1, 1)
+      else t.ch
+    end,
+    '' order by t.ord
+  )
+  from unnest(regexp_split_to_array(coalesce(p_text, ''), '')) with ordinality as t(ch, ord);
+$$;
+
+alter table public.posts
+  add column if not exists title_choseong text
+  generated always as (public.hangul_choseong(title)) stored;
+
+create index if not exists posts_title_choseong_trgm_idx
+  on public.posts using gin (title_choseong extensions.gin_trgm_ops);
+
+-- 검색 함수에 초성 검색 추가 (인자는 그대로)
+create or replace function public.search_posts(
+  p_query text default '',
+  p_tags text[] default null,
+  p_author text default null,
+  p_from date default null,
+  p_to date default null,
+  p_has_thumbnail boolean default false,
+  p_sort text default 'relevance'
+)
+returns setof public.posts
+language plpgsql
+stable
+set search_path = public, extensions
+as $$
+declare
+  v_query text := btrim(coalesce(p_query, ''));
+  v_tags text[] := public.normalize_tags(coalesce(p_tags, '{}'));
+  v_author_id uuid;
+  v_tsquery tsquery;
+  v_pattern text;
+  v_choseong_pattern text;
+begin
+  if nullif(btrim(p_author), '') is not null then
+    select id into v_author_id from public.profiles where username = btrim(p_author);
+    if v_author_id is null then
+      return;
+    end if;
+  end if;
+
+  if v_query <> '' then
+    -- 단어마다 기호를 지우고 접두어 검색으로 묶음 (react hooks → react:* & hooks:*)
+    select to_tsquery('simple', string_agg(word || ':*', ' & '))
+    into v_tsquery
+    from (
+      select regexp_replace(lower(token), '[^[:alnum:]]+', '', 'g') as word
+      from regexp_split_to_table(v_query, '\s+') as token
+    ) words
+    where word <> '';
+
+    -- LIKE 특수문자(\ % _)는 그대로 찾도록 이스케이프
+    v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    -- 자음만 입력하면 제목 초성으로도 검색 (ㅎㄱ ㄱㅅ → 제목 초성에 ㅎㄱ와 ㄱㅅ가 차례로 포함)
+    if regexp_replace(v_query, '[ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ[:space:]]', '', 'g') = '' then
+      v_choseong_pattern := '%' || array_to_string(regexp_split_to_array(v_query, '\s+'), '%') || '%';
+    end if;
+  end if;
+
+  return query
+  select p.*
+  from public.posts p
+  where p.is_public = true
+    and (
+      v_query = ''
+      or public.post_search_vector(p.title, p.content, p.tags) @@ v_tsquery
+      or p.title ilike v_pattern
+      or p.content ilike v_pattern
+      or p.title_choseong like v_choseong_pattern
+    )
+    and (cardinality(v_tags) = 0 or p.tags @> v_tags)
+    and (v_author_id is null or p.user_id = v_author_id)
+    -- 날짜는 세션 시간대(UTC)가 아니라 한국 시간 자정 기준으로 바꿔 비교
+    and (p_from is null or p.created_at >= p_from::timestamp at time zone 'Asia/Seoul')
+    and (p_to is null or p.created_at < (p_to + 1)::timestamp at time zone 'Asia/Seoul')
+    and (not coalesce(p_has_thumbnail, false) or nullif(p.thumbnail_url, '') is not null)
+  order by
+    case when p_sort = 'likes' then p.likes_count end desc,
+    case when p_sort = 'views' then coalesce(p.views_count, 0) end desc,
+    case when p_sort = 'relevance' and v_query <> '' then
+      coalesce(ts_rank('{0.1, 0.2, 0.4, 1.0}', public.post_search_vector(p.title, p.content, p.tags), v_tsquery), 0)
+        + case when p.title ilike v_pattern or p.title_choseong like v_choseong_pattern then 0.5 else 0 end
+    end desc,
+    p.created_at desc,
+    p.id desc;
+end;
+$$;
+
+grant execute on function public.hangul_choseong(text) to anon, authenticated;